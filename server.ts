@@ -4,6 +4,13 @@ import express from 'express';
 import { fileURLToPath } from 'node:url';
 import { dirname, join, resolve } from 'node:path';
 import AppServerModule from './src/main.server';
+import { JsonFileWorkflowStore } from './src/server/jsonfileworkflowstore';
+import { WorkflowEngine } from './src/server/workflowengine';
+import { apiKeyAuthenticator, parseApiKeys, workflowApi } from './src/server/workflowapi';
+import { createDefaultExecuteRegistry } from './src/server/executehandlers';
+import { CollaborationHub } from './src/server/collaborationhub';
+import { collaborationApi } from './src/server/collaborationapi';
+import { APP_CONFIG, AppConfig, WorkflowStorage } from './src/app/app.config';
 
 // The Express app is exported so that it can be used by serverless Functions.
 export function app(): express.Express {
@@ -17,13 +24,33 @@ export function app(): express.Express {
   server.set('view engine', 'html');
   server.set('views', browserDistFolder);
 
-  // Example Express Rest API endpoints
-  // server.get('/api/**', (req, res) => { });
+  // Workflow execution API: steps come from the db.json json-server serves, instances live apart from it.
+  // Only mounted when API keys are configured, since each key decides the access level its caller acts with.
+  const apiKeys = parseApiKeys(process.env['WORKFLOW_API_KEYS']);
+  if (apiKeys.size > 0) {
+    const workflowStore = new JsonFileWorkflowStore(
+      resolve(process.env['WORKFLOW_DB'] || 'db.json'),
+      resolve(process.env['WORKFLOW_INSTANCES_DB'] || 'workflow-instances.json')
+    );
+    const executeHandlers = createDefaultExecuteRegistry(resolve(process.env['WORKFLOW_OUTBOX'] || 'outbox'));
+    server.use('/api', workflowApi(new WorkflowEngine(workflowStore, executeHandlers), apiKeyAuthenticator(apiKeys)));
+  }
+
+  // Live collaboration: change and presence events pushed to open designers
+  server.use('/api', collaborationApi(new CollaborationHub()));
+
   // Serve static files from /browser
   server.get('*.*', express.static(browserDistFolder, {
     maxAge: '1y'
   }));
 
+  // What the server-side render talks to; the browser reads assets/config.json instead
+  const appConfig: AppConfig = {
+    apiUrl: process.env['WORKFLOW_API_URL'],
+    storage: process.env['WORKFLOW_STORAGE'] as WorkflowStorage | undefined,
+    collaborationUrl: process.env['WORKFLOW_COLLABORATION_URL']
+  };
+
   // All regular routes use the Angular engine
   server.get('*', (req, res, next) => {
     const { protocol, originalUrl, baseUrl, headers } = req;
@@ -34,7 +61,10 @@ export function app(): express.Express {
         documentFilePath: indexHtml,
         url: `${protocol}://${headers.host}${originalUrl}`,
         publicPath: browserDistFolder,
-        providers: [{ provide: APP_BASE_HREF, useValue: baseUrl }],
+        providers: [
+          { provide: APP_BASE_HREF, useValue: baseUrl },
+          { provide: APP_CONFIG, useValue: appConfig }
+        ],
       })
       .then((html) => res.send(html))
       .catch((err) => next(err));
@@ -1,7 +1,15 @@
 import { NgModule } from '@angular/core';
 import { RouterModule, Routes } from '@angular/router';
+import { WorkflowpickerComponent } from './workflowpicker/workflowpicker.component';
+import { WorkstatusComponent } from './workstatus/workstatus.component';
+import { StatediagramComponent } from './statediagram/statediagram.component';
 
-const routes: Routes = [];
+const routes: Routes = [
+  { path: '', component: WorkflowpickerComponent },
+  { path: 'projects/:projectId/modules/:moduleId/pages/:pageId/workflow', component: WorkstatusComponent },
+  { path: 'projects/:projectId/modules/:moduleId/pages/:pageId/states', component: StatediagramComponent },
+  { path: '**', redirectTo: '' }
+];
 
 @NgModule({
   imports: [RouterModule.forRoot(routes)],
@@ -0,0 +1,33 @@
+import { InjectionToken, inject } from '@angular/core';
+
+export type WorkflowStorage = 'json-server' | 'local-storage' | 'memory';
+
+/**
+ * Deployment settings read at startup: from assets/config.json in the
+ * browser and from environment variables in server.ts. Everything is
+ * optional so that an app embedding the designer only sets what differs.
+ */
+export interface AppConfig {
+  apiUrl?: string;
+  storage?: WorkflowStorage;
+  // Where server.ts serves the collaboration endpoints; not the json-server apiUrl
+  collaborationUrl?: string;
+}
+
+// Provided on the platform, before the app module exists, so it is never providedIn root
+export const APP_CONFIG = new InjectionToken<AppConfig>('APP_CONFIG');
+
+export const DEFAULT_API_URL = 'http://localhost:3000';
+export const DEFAULT_COLLABORATION_URL = '/api';
+
+/** Base URL of the REST backend the json-server repository talks to. */
+export const WORKFLOW_API_URL = new InjectionToken<string>('WORKFLOW_API_URL', {
+  providedIn: 'root',
+  factory: () => (inject(APP_CONFIG, { optional: true })?.apiUrl || DEFAULT_API_URL).replace(/\/+$/, '')
+});
+
+/** Base URL of the live collaboration endpoints. */
+export const COLLABORATION_API_URL = new InjectionToken<string>('COLLABORATION_API_URL', {
+  providedIn: 'root',
+  factory: () => (inject(APP_CONFIG, { optional: true })?.collaborationUrl || DEFAULT_COLLABORATION_URL).replace(/\/+$/, '')
+});
@@ -8,29 +8,45 @@ import {
   provideHttpClient,
   withFetch
 } from '@angular/common/http';
+import { AppRoutingModule } from './app-routing.module';
 import { AppComponent } from './app.component';
 import { WorkstatusComponent } from './workstatus/workstatus.component';
+import { WorkflowpickerComponent } from './workflowpicker/workflowpicker.component';
+import { StatediagramComponent } from './statediagram/statediagram.component';
+import { LookupselectComponent } from './lookupselect/lookupselect.component';
+import { WorkflowtransferComponent } from './workflowtransfer/workflowtransfer.component';
+import { MinimapComponent } from './minimap/minimap.component';
+import { WorkflowmergeComponent } from './workflowmerge/workflowmerge.component';
 import { MatSidenavModule } from '@angular/material/sidenav';
 import { MatIconModule } from '@angular/material/icon';
 import { MatButtonModule } from '@angular/material/button';
 import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatDividerModule } from '@angular/material/divider';
+import { MatSnackBarModule } from '@angular/material/snack-bar';
 
 @NgModule({
   declarations: [
     AppComponent,
-    WorkstatusComponent
+    WorkstatusComponent,
+    WorkflowpickerComponent,
+    StatediagramComponent,
+    LookupselectComponent,
+    WorkflowtransferComponent,
+    MinimapComponent,
+    WorkflowmergeComponent
   ],
   imports: [
     BrowserModule,
     BrowserAnimationsModule, 
     FormsModule,             
     HttpClientModule,       
+    AppRoutingModule,
     MatSidenavModule,
     MatIconModule,
     MatButtonModule,
     MatTooltipModule,
-    MatDividerModule
+    MatDividerModule,
+    MatSnackBarModule
   ],
   providers: [
     provideHttpClient(withFetch()) 
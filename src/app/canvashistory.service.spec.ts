@@ -0,0 +1,63 @@
+import { TestBed } from '@angular/core/testing';
+
+import { CanvashistoryService, CanvasCommand } from './canvashistory.service';
+
+describe('CanvashistoryService', () => {
+  let service: CanvashistoryService;
+  let value: number;
+
+  const setTo = (from: number, to: number): CanvasCommand => ({
+    label: `Set ${to}`,
+    undo: () => value = from,
+    redo: () => value = to
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [CanvashistoryService]
+    });
+    service = TestBed.inject(CanvashistoryService);
+    value = 0;
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should undo and redo recorded commands in order', () => {
+    value = 1;
+    service.record(setTo(0, 1));
+    value = 2;
+    service.record(setTo(1, 2));
+
+    service.undo();
+    expect(value).toBe(1);
+    service.undo();
+    expect(value).toBe(0);
+    expect(service.canUndo()).toBeFalse();
+
+    service.redo();
+    expect(value).toBe(1);
+    expect(service.getRedoLabel()).toBe('Set 2');
+  });
+
+  it('should drop the redo stack when a new command is recorded', () => {
+    service.record(setTo(0, 1));
+    service.undo();
+    service.record(setTo(0, 5));
+
+    expect(service.canRedo()).toBeFalse();
+  });
+
+  it('should ignore commands recorded while replaying', () => {
+    service.record({
+      label: 'Nested',
+      undo: () => service.record(setTo(0, 9)),
+      redo: () => { }
+    });
+
+    service.undo();
+
+    expect(service.canUndo()).toBeFalse();
+  });
+});
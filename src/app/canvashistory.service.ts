@@ -0,0 +1,81 @@
+import { Injectable } from '@angular/core';
+
+export interface CanvasCommand {
+  label: string;
+  undo: () => void;
+  redo: () => void;
+}
+
+/**
+ * Undo/redo stacks for the workflow canvas. Commands are recorded after the
+ * change has been applied; undo and redo replay them, including the calls
+ * that bring the server back in line.
+ */
+@Injectable()
+export class CanvashistoryService {
+
+  private readonly MAX_HISTORY = 100;
+
+  private undoStack: CanvasCommand[] = [];
+  private redoStack: CanvasCommand[] = [];
+  private replaying = false;
+
+  record(command: CanvasCommand): void {
+    // Changes made while undoing or redoing are part of that command
+    if (this.replaying) return;
+
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.MAX_HISTORY) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  undo(): CanvasCommand | null {
+    const command = this.undoStack.pop();
+    if (!command) return null;
+
+    this.replay(() => command.undo());
+    this.redoStack.push(command);
+    return command;
+  }
+
+  redo(): CanvasCommand | null {
+    const command = this.redoStack.pop();
+    if (!command) return null;
+
+    this.replay(() => command.redo());
+    this.undoStack.push(command);
+    return command;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  getUndoLabel(): string | null {
+    return this.undoStack.length > 0 ? this.undoStack[this.undoStack.length - 1].label : null;
+  }
+
+  getRedoLabel(): string | null {
+    return this.redoStack.length > 0 ? this.redoStack[this.redoStack.length - 1].label : null;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  private replay(action: () => void): void {
+    this.replaying = true;
+    try {
+      action();
+    } finally {
+      this.replaying = false;
+    }
+  }
+}
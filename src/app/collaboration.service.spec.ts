@@ -0,0 +1,90 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+
+import { CollaborationService } from './collaboration.service';
+import { APP_CONFIG } from './app.config';
+import { DraggableItem, SavedState } from './workflowservice.service';
+
+describe('CollaborationService', () => {
+  let service: CollaborationService;
+
+  const node = (id: number, x: number, extra: Partial<DraggableItem> = {}): DraggableItem => ({
+    id,
+    label: `Step ${id}`,
+    type: 'action1',
+    position: { x, y: 100 },
+    properties: { position: { x, y: 100 }, name: `Step ${id}`, execute: '' },
+    workflowId: String(id),
+    ...extra
+  });
+
+  const state = (): SavedState => ({
+    items: [node(1, 100), node(2, 300)],
+    arrows: [{ fromId: 1, toId: 2 }],
+    nextId: 3
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule]
+    });
+    service = TestBed.inject(CollaborationService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should post to the configured collaboration URL', () => {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [{ provide: APP_CONFIG, useValue: { collaborationUrl: 'https://designer.example.com/api/' } }]
+    });
+    service = TestBed.inject(CollaborationService);
+    const httpMock = TestBed.inject(HttpTestingController);
+
+    service.updatePresence({ project_id: 1, logical_module_id: 10, page_id: 80 }, 3).subscribe();
+
+    httpMock.expectOne('https://designer.example.com/api/projects/1/modules/10/pages/80/collaboration/presence').flush({ ok: true });
+    httpMock.verify();
+  });
+
+  it('should describe a move, a property edit and a new arrow as separate changes', () => {
+    const before = state();
+    const after = state();
+    after.items[0].position = { x: 140, y: 100 };
+    after.items[1].properties!.execute = 'email';
+    after.items.push(node(3, 500));
+    after.arrows.push({ fromId: 2, toId: 3 });
+
+    expect(service.diffStates(before, after)).toEqual([
+      { kind: 'node-moved', itemId: 1, position: { x: 140, y: 100 } },
+      { kind: 'node-updated', itemId: 2, label: 'Step 2', type: 'action1', properties: { execute: 'email' } },
+      { kind: 'node-added', item: node(3, 500) },
+      { kind: 'arrow-added', arrow: { fromId: 2, toId: 3 } }
+    ]);
+  });
+
+  it('should merge remote changes without touching other fields', () => {
+    const local = state();
+    local.items[0].properties!.name = 'Submit';
+
+    const { state: merged, collision } = service.applyChanges(local, [
+      { kind: 'node-updated', itemId: 1, label: 'Step 1', type: 'action1', properties: { execute: 'posting' } },
+      { kind: 'node-removed', itemId: 2 }
+    ]);
+
+    expect(collision).toBeFalse();
+    expect(merged.items.length).toBe(1);
+    expect(merged.items[0].properties).toEqual(jasmine.objectContaining({ name: 'Submit', execute: 'posting' }));
+    expect(merged.arrows).toEqual([]);
+    expect(local.items.length).toBe(2);
+  });
+
+  it('should flag a remote node that reuses a local id', () => {
+    const result = service.applyChanges(state(), [{ kind: 'node-added', item: node(2, 700, { workflowId: '9' }) }]);
+
+    expect(result.collision).toBeTrue();
+  });
+});
@@ -0,0 +1,246 @@
+import { Inject, Injectable, NgZone, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+import { ArrowData, DraggableItem, Position, SavedState, WorkflowPageRef } from './workflowservice.service';
+import { COLLABORATION_API_URL } from './app.config';
+
+export type CollaborationChange =
+  | { kind: 'node-added'; item: DraggableItem }
+  | { kind: 'node-removed'; itemId: number }
+  | { kind: 'node-moved'; itemId: number; position: Position }
+  | { kind: 'node-updated'; itemId: number; label: string; type: DraggableItem['type']; properties: Record<string, any> }
+  | { kind: 'arrow-added'; arrow: ArrowData }
+  | { kind: 'arrow-removed'; arrow: ArrowData };
+
+export interface CollaboratorPresence {
+  clientId: string;
+  name: string;
+  color: string;
+  selection: number | null;
+}
+
+export type CollaborationEvent =
+  | { type: 'welcome'; clientId: string; token: string; revision: number; presence: CollaboratorPresence[] }
+  | { type: 'presence'; presence: CollaboratorPresence[] }
+  | { type: 'changes'; clientId: string; revision: number; changes: CollaborationChange[] }
+  // Raised on the client only, when the stream drops; EventSource retries by itself
+  | { type: 'disconnected' };
+
+export interface CollaborationMergeResult {
+  state: SavedState;
+  // A remote node reused an id that is taken locally; only a reload sorts that out
+  collision: boolean;
+}
+
+/**
+ * Live editing channel for a workflow page. Changes travel as small events
+ * (a node moved, a property changed, an arrow added) over Server-Sent Events
+ * from server.ts, and are diffed from / merged into the canvas SavedState.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CollaborationService {
+
+  private readonly NAME_KEY = 'taskend.collaboratorName';
+
+  readonly clientId = this.createClientId();
+  // From the latest welcome event; each (re)connection gets a new one
+  private token = '';
+  private isBrowser: boolean;
+
+  constructor(
+    private http: HttpClient,
+    private zone: NgZone,
+    @Inject(PLATFORM_ID) private platformId: Object,
+    @Inject(COLLABORATION_API_URL) private apiUrl: string
+  ) {
+    this.isBrowser = isPlatformBrowser(this.platformId);
+  }
+
+  connect(page: WorkflowPageRef): Observable<CollaborationEvent> {
+    return new Observable<CollaborationEvent>((subscriber) => {
+      if (!this.isBrowser || typeof EventSource === 'undefined') {
+        subscriber.next({ type: 'disconnected' });
+        subscriber.complete();
+        return;
+      }
+
+      const query = `clientId=${encodeURIComponent(this.clientId)}&name=${encodeURIComponent(this.getDisplayName())}`;
+      const source = new EventSource(`${this.getPageUrl(page)}/events?${query}`);
+
+      source.onmessage = (message: MessageEvent) => {
+        const event = JSON.parse(message.data) as CollaborationEvent;
+        if (event.type === 'welcome') {
+          this.token = event.token;
+        }
+        this.zone.run(() => subscriber.next(event));
+      };
+      source.onerror = () => {
+        this.zone.run(() => subscriber.next({ type: 'disconnected' }));
+      };
+
+      return () => source.close();
+    });
+  }
+
+  publish(page: WorkflowPageRef, changes: CollaborationChange[]): Observable<number | null> {
+    return this.http.post<{ revision: number }>(`${this.getPageUrl(page)}/changes`, { clientId: this.clientId, token: this.token, changes })
+      .pipe(
+        map((response: { revision: number }) => response.revision),
+        catchError((error: any) => {
+          console.error('Error publishing canvas changes:', error);
+          return of(null);
+        })
+      );
+  }
+
+  updatePresence(page: WorkflowPageRef, selection: number | null): Observable<boolean> {
+    return this.http.post(`${this.getPageUrl(page)}/presence`, { clientId: this.clientId, token: this.token, selection })
+      .pipe(
+        map(() => true),
+        catchError((error: any) => {
+          console.error('Error updating presence:', error);
+          return of(false);
+        })
+      );
+  }
+
+  getDisplayName(): string {
+    const stored = this.isBrowser ? localStorage.getItem(this.NAME_KEY) : null;
+    if (stored) return stored;
+
+    const name = `Designer ${Math.floor(Math.random() * 90) + 10}`;
+    if (this.isBrowser) {
+      localStorage.setItem(this.NAME_KEY, name);
+    }
+    return name;
+  }
+
+  /** The events that turn `before` into `after`. */
+  diffStates(before: SavedState, after: SavedState): CollaborationChange[] {
+    const changes: CollaborationChange[] = [];
+    const beforeItems = new Map(before.items.map((item: DraggableItem) => [item.id, item] as [number, DraggableItem]));
+    const afterIds = new Set(after.items.map((item: DraggableItem) => item.id));
+
+    before.items
+      .filter((item: DraggableItem) => !afterIds.has(item.id))
+      .forEach((item: DraggableItem) => changes.push({ kind: 'node-removed', itemId: item.id }));
+
+    after.items.forEach((item: DraggableItem) => {
+      const previous = beforeItems.get(item.id);
+      if (!previous) {
+        changes.push({ kind: 'node-added', item: this.clone(item) });
+        return;
+      }
+
+      if (previous.position.x !== item.position.x || previous.position.y !== item.position.y) {
+        changes.push({ kind: 'node-moved', itemId: item.id, position: { ...item.position } });
+      }
+
+      const properties = this.diffProperties(previous.properties || {}, item.properties || {});
+      if (previous.label !== item.label || previous.type !== item.type || Object.keys(properties).length > 0) {
+        changes.push({ kind: 'node-updated', itemId: item.id, label: item.label, type: item.type, properties });
+      }
+    });
+
+    const arrowKey = (arrow: ArrowData) => `${arrow.fromId}>${arrow.toId}`;
+    const beforeArrows = new Set(before.arrows.map(arrowKey));
+    const afterArrows = new Set(after.arrows.map(arrowKey));
+    before.arrows
+      .filter((arrow: ArrowData) => !afterArrows.has(arrowKey(arrow)))
+      .forEach((arrow: ArrowData) => changes.push({ kind: 'arrow-removed', arrow: { ...arrow } }));
+    after.arrows
+      .filter((arrow: ArrowData) => !beforeArrows.has(arrowKey(arrow)))
+      .forEach((arrow: ArrowData) => changes.push({ kind: 'arrow-added', arrow: { ...arrow } }));
+
+    return changes;
+  }
+
+  /** Applies remote events to a copy of `state`; later events win field by field. */
+  applyChanges(state: SavedState, changes: CollaborationChange[]): CollaborationMergeResult {
+    const merged: SavedState = this.clone(state);
+    let collision = false;
+
+    const find = (itemId: number) => merged.items.find((item: DraggableItem) => item.id === itemId);
+
+    changes.forEach((change: CollaborationChange) => {
+      switch (change.kind) {
+        case 'node-added': {
+          const existing = find(change.item.id);
+          if (existing && (existing.workflowId !== change.item.workflowId || existing.type !== change.item.type)) {
+            collision = true;
+          } else if (existing) {
+            Object.assign(existing, this.clone(change.item));
+          } else {
+            merged.items.push(this.clone(change.item));
+          }
+          break;
+        }
+        case 'node-removed':
+          merged.items = merged.items.filter((item: DraggableItem) => item.id !== change.itemId);
+          merged.arrows = merged.arrows.filter((arrow: ArrowData) => arrow.fromId !== change.itemId && arrow.toId !== change.itemId);
+          break;
+        case 'node-moved': {
+          const item = find(change.itemId);
+          if (item) {
+            item.position = { ...change.position };
+            item.properties = { ...item.properties, position: { ...change.position } };
+          }
+          break;
+        }
+        case 'node-updated': {
+          const item = find(change.itemId);
+          if (item) {
+            item.label = change.label;
+            item.type = change.type;
+            item.properties = { ...item.properties, ...change.properties, position: { ...item.position } };
+          }
+          break;
+        }
+        case 'arrow-added': {
+          const { fromId, toId } = change.arrow;
+          const duplicate = merged.arrows.some((arrow: ArrowData) => arrow.fromId === fromId && arrow.toId === toId);
+          if (!duplicate && find(fromId) && find(toId)) {
+            merged.arrows.push({ fromId, toId });
+          }
+          break;
+        }
+        case 'arrow-removed':
+          merged.arrows = merged.arrows.filter((arrow: ArrowData) =>
+            arrow.fromId !== change.arrow.fromId || arrow.toId !== change.arrow.toId
+          );
+          break;
+      }
+    });
+
+    merged.nextId = Math.max(merged.nextId || 1, ...merged.items.map((item: DraggableItem) => item.id + 1));
+    return { state: merged, collision };
+  }
+
+  // Changed keys only, with removed keys sent as null. Position travels as node-moved.
+  private diffProperties(before: Record<string, any>, after: Record<string, any>): Record<string, any> {
+    const changed: Record<string, any> = {};
+    new Set([...Object.keys(before), ...Object.keys(after)]).forEach((key: string) => {
+      if (key === 'position') return;
+      if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        changed[key] = after[key] === undefined ? null : this.clone(after[key]);
+      }
+    });
+    return changed;
+  }
+
+  private getPageUrl(page: WorkflowPageRef): string {
+    return `${this.apiUrl}/projects/${page.project_id}/modules/${page.logical_module_id}/pages/${page.page_id}/collaboration`;
+  }
+
+  private createClientId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+  }
+
+  private clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+  }
+}
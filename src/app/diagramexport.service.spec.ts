@@ -0,0 +1,54 @@
+import { TestBed } from '@angular/core/testing';
+
+import { DiagramexportService, DiagramNode } from './diagramexport.service';
+
+describe('DiagramexportService', () => {
+  let service: DiagramexportService;
+
+  const nodes: DiagramNode[] = [
+    { type: 'action1', label: 'Entry', position: { x: 400, y: 300 } },
+    { type: 'action2', label: 'Review & <Approve>', caption: 'Approve · Approver', position: { x: 400, y: 450 } }
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(DiagramexportService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should crop the diagram to its content', () => {
+    const image = service.buildSvg(nodes, [{ path: 'M 470 364 C 470 400, 470 420, 470 447' }]);
+
+    expect(image.width).toBeLessThan(300);
+    expect(image.height).toBeLessThan(350);
+    expect(image.svg).toContain('translate(');
+    expect(image.svg).toContain('marker-end="url(#arrowhead)"');
+  });
+
+  it('should escape labels', () => {
+    const image = service.buildSvg(nodes, []);
+
+    expect(image.svg).toContain('Review &amp; &lt;Approve&gt;');
+    expect(image.svg).not.toContain('<Approve>');
+  });
+
+  it('should write a PDF whose cross-reference table points at each object', () => {
+    const pdf = service.buildPdf(new Uint8Array([0xff, 0xd8, 0xff, 0xd9]), 800, 400, 'Page (80)');
+    const text = Array.from(pdf, (byte: number) => String.fromCharCode(byte)).join('');
+
+    expect(text.startsWith('%PDF-1.4')).toBeTrue();
+    expect(text).toContain('/MediaBox [0 0 842 595]');
+    expect(text).toContain('/Title (Page \\(80\\))');
+
+    const offsets = text.split('xref\n')[1].split('\n').slice(2, 8).map((line: string) => Number(line.slice(0, 10)));
+    offsets.forEach((offset: number, index: number) => {
+      expect(text.substr(offset, 8)).toBe(`${index + 1} 0 obj\n`);
+    });
+
+    const startxref = Number(text.split('startxref\n')[1].split('\n')[0]);
+    expect(text.substr(startxref, 4)).toBe('xref');
+  });
+});
@@ -0,0 +1,302 @@
+import { Inject, Injectable } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { DraggableItem, Position } from './workflowservice.service';
+
+export type DiagramFormat = 'svg' | 'png' | 'pdf';
+
+export interface DiagramNode {
+  type: DraggableItem['type'];
+  label: string;
+  caption?: string;
+  position: Position;
+}
+
+export interface DiagramEdge {
+  path: string;
+  dashed?: boolean;
+}
+
+export interface DiagramImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Same sizes and colours as the canvas nodes in workstatus.component.css
+const NODE_WIDTH = 140;
+const NODE_HEIGHT = 64;
+const MARGIN = 40;
+const FONT = 'Roboto, "Helvetica Neue", Arial, sans-serif';
+
+const NODE_GRADIENTS: { [type in DiagramNode['type']]: [string, string] } = {
+  action1: ['#00c6ff', '#0072ff'],
+  action2: ['#b721ff', '#21d4fd'],
+  continue: ['#43e97b', '#38f9d7'],
+  reject: ['#ff416c', '#ff4b2b']
+};
+
+// Material icon outlines (24x24 viewBox) for the icons getIconName() picks
+const ICON_PATHS: { [type in DiagramNode['type']]: string } = {
+  action1: 'M20.5 11H19V7c0-1.1-.9-2-2-2h-4V3.5C13 2.12 11.88 1 10.5 1S8 2.12 8 3.5V5H4c-1.1 0-1.99.9-1.99 2v3.8H3.5c1.49 0 2.7 1.21 2.7 2.7s-1.21 2.7-2.7 2.7H2V20c0 1.1.9 2 2 2h3.8v-1.5c0-1.49 1.21-2.7 2.7-2.7 1.49 0 2.7 1.21 2.7 2.7V22H17c1.1 0 2-.9 2-2v-4h1.5c1.38 0 2.5-1.12 2.5-2.5S21.88 11 20.5 11z',
+  action2: 'M20.5 11H19V7c0-1.1-.9-2-2-2h-4V3.5C13 2.12 11.88 1 10.5 1S8 2.12 8 3.5V5H4c-1.1 0-1.99.9-1.99 2v3.8H3.5c1.49 0 2.7 1.21 2.7 2.7s-1.21 2.7-2.7 2.7H2V20c0 1.1.9 2 2 2h3.8v-1.5c0-1.49 1.21-2.7 2.7-2.7 1.49 0 2.7 1.21 2.7 2.7V22H17c1.1 0 2-.9 2-2v-4h1.5c1.38 0 2.5-1.12 2.5-2.5S21.88 11 20.5 11z',
+  continue: 'M1 21h4V9H1v12zm22-11c0-1.1-.9-2-2-2h-6.31l.95-4.57.03-.32c0-.41-.17-.79-.44-1.06L14.17 1 7.59 7.59C7.22 7.95 7 8.45 7 9v10c0 1.1.9 2 2 2h9c.83 0 1.54-.5 1.84-1.22l3.02-7.05c.09-.23.14-.47.14-.73v-2z',
+  reject: 'M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z'
+};
+
+// A4 in PDF points
+const PAGE_LONG = 842;
+const PAGE_SHORT = 595;
+const PAGE_MARGIN = 36;
+
+/**
+ * Renders the designer canvas as a standalone diagram. The SVG is built
+ * from node positions and arrow paths rather than copied from the DOM, so
+ * it is cropped to the content and carries no editor chrome; PNG and PDF
+ * are rasterised from it.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DiagramexportService {
+
+  constructor(@Inject(DOCUMENT) private dom: Document) { }
+
+  buildSvg(nodes: DiagramNode[], edges: DiagramEdge[], title = 'Workflow'): DiagramImage {
+    const bounds = this.getBounds(nodes, edges);
+    const width = Math.ceil(bounds.maxX - bounds.minX + MARGIN * 2);
+    const height = Math.ceil(bounds.maxY - bounds.minY + MARGIN * 2);
+    const offsetX = MARGIN - bounds.minX;
+    const offsetY = MARGIN - bounds.minY;
+
+    const gradients = (Object.keys(NODE_GRADIENTS) as DiagramNode['type'][]).map((type: DiagramNode['type']) =>
+      `<linearGradient id="fill-${type}" x1="0" y1="0" x2="1" y2="1">` +
+      `<stop offset="0" stop-color="${NODE_GRADIENTS[type][0]}"/><stop offset="1" stop-color="${NODE_GRADIENTS[type][1]}"/>` +
+      `</linearGradient>`
+    ).join('');
+
+    const arrows = edges.map((edge: DiagramEdge) =>
+      `<path d="${this.escape(edge.path)}" stroke="#555" stroke-width="2.5" fill="none" stroke-linecap="round" ` +
+      `stroke-linejoin="round"${edge.dashed ? ' stroke-dasharray="6,4"' : ''} marker-end="url(#arrowhead)"/>`
+    ).join('');
+
+    const boxes = nodes.map((node: DiagramNode) => this.renderNode(node)).join('');
+
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+      `<title>${this.escape(title)}</title>` +
+      `<defs>${gradients}` +
+      `<marker id="arrowhead" markerWidth="10" markerHeight="10" refX="9" refY="5" orient="auto" markerUnits="userSpaceOnUse">` +
+      `<path d="M 0 0 L 10 5 L 0 10 z" fill="#555"/></marker></defs>` +
+      `<rect width="100%" height="100%" fill="#ffffff"/>` +
+      `<g transform="translate(${offsetX} ${offsetY})">${arrows}${boxes}</g>` +
+      `</svg>`;
+
+    return { svg, width, height };
+  }
+
+  toSvgBlob(image: DiagramImage): Blob {
+    return new Blob([image.svg], { type: 'image/svg+xml' });
+  }
+
+  toPngBlob(image: DiagramImage, scale = 2): Promise<Blob> {
+    return this.rasterize(image, scale).then((canvas: HTMLCanvasElement) => this.canvasToBlob(canvas, 'image/png'));
+  }
+
+  /** A single A4 page, oriented to the diagram, with the diagram as an embedded JPEG */
+  toPdfBlob(image: DiagramImage, title: string, scale = 2): Promise<Blob> {
+    return this.rasterize(image, scale)
+      .then((canvas: HTMLCanvasElement) => this.canvasToBlob(canvas, 'image/jpeg', 0.92)
+        .then((jpeg: Blob) => jpeg.arrayBuffer())
+        .then((buffer: ArrayBuffer) => {
+          const pdf = this.buildPdf(new Uint8Array(buffer), canvas.width, canvas.height, title);
+          return new Blob([pdf], { type: 'application/pdf' });
+        }));
+  }
+
+  buildPdf(jpeg: Uint8Array, pixelWidth: number, pixelHeight: number, title: string): Uint8Array {
+    const landscape = pixelWidth >= pixelHeight;
+    const pageWidth = landscape ? PAGE_LONG : PAGE_SHORT;
+    const pageHeight = landscape ? PAGE_SHORT : PAGE_LONG;
+    const fit = Math.min(
+      (pageWidth - PAGE_MARGIN * 2) / pixelWidth,
+      (pageHeight - PAGE_MARGIN * 2) / pixelHeight
+    );
+    const drawWidth = this.round(pixelWidth * fit);
+    const drawHeight = this.round(pixelHeight * fit);
+    const x = this.round((pageWidth - drawWidth) / 2);
+    const y = this.round((pageHeight - drawHeight) / 2);
+    const content = `q ${drawWidth} 0 0 ${drawHeight} ${x} ${y} cm /Im0 Do Q`;
+
+    const objects: (string | Uint8Array)[][] = [
+      ['<< /Type /Catalog /Pages 2 0 R >>'],
+      ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+      [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+        '/Resources << /XObject << /Im0 5 0 R >> >> /Contents 4 0 R >>'],
+      [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`],
+      [`<< /Type /XObject /Subtype /Image /Width ${pixelWidth} /Height ${pixelHeight} /ColorSpace /DeviceRGB ` +
+        `/BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`, jpeg, '\nendstream'],
+      [`<< /Title (${this.escapePdfText(title)}) /Producer (taskend) >>`]
+    ];
+
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const push = (part: string | Uint8Array) => {
+      const bytes = typeof part === 'string' ? this.ascii(part) : part;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+
+    push('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+    objects.forEach((parts: (string | Uint8Array)[], index: number) => {
+      offsets.push(length);
+      push(`${index + 1} 0 obj\n`);
+      parts.forEach(push);
+      push('\nendobj\n');
+    });
+
+    const xrefOffset = length;
+    push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+    offsets.forEach((offset: number) => push(`${String(offset).padStart(10, '0')} 00000 n \n`));
+    push(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const pdf = new Uint8Array(length);
+    let position = 0;
+    chunks.forEach((chunk: Uint8Array) => {
+      pdf.set(chunk, position);
+      position += chunk.length;
+    });
+    return pdf;
+  }
+
+  download(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = this.dom.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private renderNode(node: DiagramNode): string {
+    const { x, y } = node.position;
+    const iconScale = 32 / 24;
+    const iconX = x + (NODE_WIDTH - 32) / 2;
+    const iconY = y + (NODE_HEIGHT - 32) / 2;
+    const labelWidth = this.estimateTextWidth(node.label, 12) + 20;
+    const labelY = y + NODE_HEIGHT + 10;
+
+    let markup =
+      `<rect x="${x}" y="${y}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="16" fill="url(#fill-${node.type})"/>` +
+      `<path d="${ICON_PATHS[node.type]}" fill="#ffffff" transform="translate(${iconX} ${iconY}) scale(${iconScale})"/>` +
+      `<rect x="${x + NODE_WIDTH / 2 - labelWidth / 2}" y="${labelY}" width="${labelWidth}" height="22" rx="11" ` +
+      `fill="#ffffff" stroke="#e0e0e0"/>` +
+      `<text x="${x + NODE_WIDTH / 2}" y="${labelY + 15}" text-anchor="middle" font-family='${FONT}' ` +
+      `font-size="12" font-weight="700" fill="#555">${this.escape(node.label)}</text>`;
+
+    if (node.caption) {
+      markup += `<text x="${x + NODE_WIDTH / 2}" y="${labelY + 38}" text-anchor="middle" font-family='${FONT}' ` +
+        `font-size="11" fill="#777">${this.escape(node.caption)}</text>`;
+    }
+    return markup;
+  }
+
+  private getBounds(nodes: DiagramNode[], edges: DiagramEdge[]): Bounds {
+    const bounds: Bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    const include = (x: number, y: number) => {
+      bounds.minX = Math.min(bounds.minX, x);
+      bounds.minY = Math.min(bounds.minY, y);
+      bounds.maxX = Math.max(bounds.maxX, x);
+      bounds.maxY = Math.max(bounds.maxY, y);
+    };
+
+    nodes.forEach((node: DiagramNode) => {
+      const { x, y } = node.position;
+      const textWidth = Math.max(
+        this.estimateTextWidth(node.label, 12) + 20,
+        node.caption ? this.estimateTextWidth(node.caption, 11) : 0
+      );
+      const centerX = x + NODE_WIDTH / 2;
+      include(x, y);
+      include(x + NODE_WIDTH, y + NODE_HEIGHT + (node.caption ? 52 : 32));
+      include(centerX - textWidth / 2, y);
+      include(centerX + textWidth / 2, y);
+    });
+
+    // Bezier curves stay inside the hull of their control points
+    edges.forEach((edge: DiagramEdge) => {
+      const numbers = (edge.path.match(/-?\d+(\.\d+)?/g) || []).map(Number);
+      for (let i = 0; i + 1 < numbers.length; i += 2) {
+        include(numbers[i], numbers[i + 1]);
+      }
+    });
+
+    if (bounds.minX === Infinity) {
+      return { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+    }
+    return bounds;
+  }
+
+  private rasterize(image: DiagramImage, scale: number): Promise<HTMLCanvasElement> {
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => {
+        const canvas = this.dom.createElement('canvas');
+        canvas.width = Math.round(image.width * scale);
+        canvas.height = Math.round(image.height * scale);
+        const context = canvas.getContext('2d');
+        if (!context) {
+          reject(new Error('Canvas 2D context is not available'));
+          return;
+        }
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas);
+      };
+      img.onerror = () => reject(new Error('The diagram could not be rendered'));
+      img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.svg)}`;
+    });
+  }
+
+  private canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob((blob: Blob | null) => blob ? resolve(blob) : reject(new Error(`Could not encode ${type}`)), type, quality);
+    });
+  }
+
+  private estimateTextWidth(text: string, fontSize: number): number {
+    return text.length * fontSize * 0.6;
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private escapePdfText(text: string): string {
+    return text.replace(/[^\x20-\x7e]/g, '?').replace(/([()\\])/g, '\\$1');
+  }
+
+  private ascii(text: string): Uint8Array {
+    const bytes = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) {
+      bytes[i] = text.charCodeAt(i) & 0xff;
+    }
+    return bytes;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
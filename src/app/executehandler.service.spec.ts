@@ -0,0 +1,32 @@
+import { TestBed } from '@angular/core/testing';
+
+import { ExecutehandlerService } from './executehandler.service';
+
+describe('ExecutehandlerService', () => {
+  let service: ExecutehandlerService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ExecutehandlerService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should parse and format the comma-separated execute field', () => {
+    expect(service.parseExecute(' email, posting ,')).toEqual(['email', 'posting']);
+    expect(service.formatExecute(['posting', 'email'])).toBe('posting,email');
+  });
+
+  it('should fill in handler defaults under the stored configuration', () => {
+    expect(service.resolveConfig('webhook', { webhook: { url: 'http://localhost/hook' } }))
+      .toEqual({ method: 'POST', url: 'http://localhost/hook' });
+  });
+
+  it('should report missing and malformed configuration', () => {
+    expect(service.validateConfig('webhook', {})).toEqual(['Webhook: URL is required.']);
+    expect(service.validateConfig('email', { to: 'not-an-address' }).length).toBe(1);
+    expect(service.validateConfig('fax')).toEqual(['"fax" is not a registered handler.']);
+  });
+});
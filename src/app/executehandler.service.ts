@@ -0,0 +1,166 @@
+import { Injectable } from '@angular/core';
+
+export type ExecuteConfigFieldType = 'text' | 'textarea' | 'email' | 'url' | 'number' | 'boolean' | 'select';
+
+export interface ExecuteConfigField {
+  key: string;
+  label: string;
+  type: ExecuteConfigFieldType;
+  required?: boolean;
+  options?: string[];
+  defaultValue?: string | number | boolean;
+  hint?: string;
+}
+
+/** Describes a named `execute` handler and the configuration it accepts */
+export interface ExecuteHandlerDefinition {
+  name: string;
+  label: string;
+  icon: string;
+  description: string;
+  config: ExecuteConfigField[];
+}
+
+export interface EmailHandlerConfig {
+  to?: string;
+  subject?: string;
+  body?: string;
+}
+
+export interface PostingHandlerConfig {
+  account?: string;
+  reference?: string;
+}
+
+export interface WebhookHandlerConfig {
+  url: string;
+  method?: 'POST' | 'PUT';
+  // Names a server-side secret; the value itself never sits in step data
+  secretName?: string;
+}
+
+// Per-step handler configuration, keyed by handler name
+export type ExecuteConfig = { [handler: string]: { [key: string]: any } };
+
+export const EMAIL_HANDLER: ExecuteHandlerDefinition = {
+  name: 'email',
+  label: 'Email',
+  icon: 'mail',
+  description: 'Sends a notification email about the status change.',
+  config: [
+    { key: 'to', label: 'To', type: 'email', hint: 'Comma-separated; defaults to the step assignees' },
+    { key: 'subject', label: 'Subject', type: 'text', defaultValue: 'Workflow update: {{toValue}}' },
+    { key: 'body', label: 'Body', type: 'textarea' }
+  ]
+};
+
+export const POSTING_HANDLER: ExecuteHandlerDefinition = {
+  name: 'posting',
+  label: 'Posting',
+  icon: 'receipt_long',
+  description: 'Records a posting entry for the record.',
+  config: [
+    { key: 'account', label: 'Account', type: 'text' },
+    { key: 'reference', label: 'Reference', type: 'text', defaultValue: '{{stepName}}' }
+  ]
+};
+
+export const WEBHOOK_HANDLER: ExecuteHandlerDefinition = {
+  name: 'webhook',
+  label: 'Webhook',
+  icon: 'webhook',
+  description: 'Calls an HTTP endpoint with the status change.',
+  config: [
+    { key: 'url', label: 'URL', type: 'url', required: true },
+    { key: 'method', label: 'Method', type: 'select', options: ['POST', 'PUT'], defaultValue: 'POST' },
+    { key: 'secretName', label: 'Secret name', type: 'text',
+      hint: 'The server sends its WORKFLOW_SECRET_<NAME> variable as X-Workflow-Secret' }
+  ]
+};
+
+/**
+ * The handlers a step's comma-separated `execute` field may name. Shared by
+ * the property panel, the validator and the server-side engine, which
+ * registers an implementation for each definition.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ExecutehandlerService {
+  private handlers: ExecuteHandlerDefinition[] = [EMAIL_HANDLER, POSTING_HANDLER, WEBHOOK_HANDLER];
+
+  getHandlers(): ExecuteHandlerDefinition[] {
+    return this.handlers;
+  }
+
+  getHandler(name: string): ExecuteHandlerDefinition | undefined {
+    return this.handlers.find((handler: ExecuteHandlerDefinition) => handler.name === name);
+  }
+
+  register(definition: ExecuteHandlerDefinition): void {
+    this.handlers = [
+      ...this.handlers.filter((handler: ExecuteHandlerDefinition) => handler.name !== definition.name),
+      definition
+    ];
+  }
+
+  parseExecute(execute: any): string[] {
+    return (execute == null ? '' : String(execute))
+      .split(',')
+      .map((name: string) => name.trim())
+      .filter((name: string) => name.length > 0);
+  }
+
+  formatExecute(names: string[]): string {
+    return names.join(',');
+  }
+
+  getDefaultConfig(name: string): { [key: string]: any } {
+    const config: { [key: string]: any } = {};
+    this.getHandler(name)?.config.forEach((field: ExecuteConfigField) => {
+      if (field.defaultValue !== undefined) config[field.key] = field.defaultValue;
+    });
+    return config;
+  }
+
+  /** Applies defaults to a step's stored configuration for one handler */
+  resolveConfig(name: string, config?: ExecuteConfig | null): { [key: string]: any } {
+    return { ...this.getDefaultConfig(name), ...(config?.[name] || {}) };
+  }
+
+  validateConfig(name: string, config: { [key: string]: any } = {}): string[] {
+    const handler = this.getHandler(name);
+    if (!handler) {
+      return [`"${name}" is not a registered handler.`];
+    }
+
+    const errors: string[] = [];
+    handler.config.forEach((field: ExecuteConfigField) => {
+      const value = config[field.key];
+      const empty = value == null || String(value).trim() === '';
+
+      if (empty) {
+        if (field.required) errors.push(`${handler.label}: ${field.label} is required.`);
+        return;
+      }
+
+      if (field.type === 'email' && !this.isEmailList(String(value))) {
+        errors.push(`${handler.label}: ${field.label} must be a list of email addresses.`);
+      } else if (field.type === 'url' && !/^https?:\/\/\S+$/i.test(String(value))) {
+        errors.push(`${handler.label}: ${field.label} must be an http(s) URL.`);
+      } else if (field.type === 'number' && isNaN(Number(value))) {
+        errors.push(`${handler.label}: ${field.label} must be a number.`);
+      } else if (field.type === 'select' && !(field.options || []).includes(String(value))) {
+        errors.push(`${handler.label}: ${field.label} must be one of ${(field.options || []).join(', ')}.`);
+      }
+    });
+    return errors;
+  }
+
+  private isEmailList(value: string): boolean {
+    return value
+      .split(',')
+      .map((address: string) => address.trim())
+      .every((address: string) => /^[^\s@]+@[^\s@]+$/.test(address));
+  }
+}
@@ -0,0 +1,82 @@
+import { InMemoryWorkflowRepository } from './inmemoryworkflowrepository';
+import { WorkflowRepositoryError } from './workflowrepository';
+import { SavedState, WorkflowProcessItem } from './workflowservice.service';
+
+describe('InMemoryWorkflowRepository', () => {
+  let repository: InMemoryWorkflowRepository;
+
+  const step = (id: string, sequence: number, extra: Partial<WorkflowProcessItem> = {}): WorkflowProcessItem => ({
+    id,
+    project_id: 1,
+    logical_module_id: 10,
+    page_id: 80,
+    sequence,
+    name: `Step ${sequence}`,
+    ...extra
+  });
+
+  beforeEach(() => {
+    repository = new InMemoryWorkflowRepository({
+      workflowProcess: [step('3', 1, { version: 1 }), step('7', 2, { version: 4 })],
+      accessLevels: [{ id: 1, name: 'Clerk' }]
+    });
+  });
+
+  it('should hand out the next free id to a created step', () => {
+    let created: WorkflowProcessItem | undefined;
+    repository.createStep(step('', 3)).subscribe((row: WorkflowProcessItem) => created = row);
+
+    expect(created?.id).toBe('8');
+  });
+
+  it('should not write until subscribed', () => {
+    const create = repository.createStep(step('', 3));
+    let count = 0;
+    repository.listSteps().subscribe((rows: WorkflowProcessItem[]) => count = rows.length);
+    expect(count).toBe(2);
+
+    create.subscribe();
+    repository.listSteps().subscribe((rows: WorkflowProcessItem[]) => count = rows.length);
+    expect(count).toBe(3);
+  });
+
+  it('should refuse a write based on an old version', () => {
+    let failure: WorkflowRepositoryError | undefined;
+    repository.replaceStep('7', step('7', 2, { version: 3 }), 2).subscribe({
+      error: (error: WorkflowRepositoryError) => failure = error
+    });
+
+    expect(failure?.status).toBe(409);
+  });
+
+  it('should answer 404 for a missing step', () => {
+    let failure: WorkflowRepositoryError | undefined;
+    repository.deleteStep('99').subscribe({ error: (error: WorkflowRepositoryError) => failure = error });
+
+    expect(failure).toEqual(jasmine.any(WorkflowRepositoryError));
+    expect(failure?.status).toBe(404);
+  });
+
+  it('should replace a saved layout under the same id', () => {
+    const state: SavedState = { id: '1-10-80', items: [], arrows: [], nextId: 1 };
+    repository.saveCanvasState(state).subscribe();
+    repository.saveCanvasState({ ...state, nextId: 5 }).subscribe();
+
+    let saved: SavedState | null = null;
+    repository.getCanvasState('1-10-80').subscribe((result: SavedState | null) => saved = result);
+    expect(saved!.nextId).toBe(5);
+  });
+
+  it('should resolve a page without a saved layout to null', () => {
+    let saved: SavedState | null | undefined;
+    repository.getCanvasState('1-10-81').subscribe((result: SavedState | null) => saved = result);
+
+    expect(saved).toBeNull();
+  });
+
+  it('should hand out copies', () => {
+    repository.getStep('3').subscribe((row: WorkflowProcessItem) => row.name = 'Changed');
+
+    repository.getStep('3').subscribe((row: WorkflowProcessItem) => expect(row.name).toBe('Step 1'));
+  });
+});
@@ -0,0 +1,123 @@
+import { Observable, defer, of, throwError } from 'rxjs';
+import { WorkflowRepository, WorkflowRepositoryData, WorkflowRepositoryError, nextStepId } from './workflowrepository';
+import { SavedState, WorkflowLookup, WorkflowProcessItem } from './workflowservice.service';
+import { WorkflowLookupSource } from './workflowfieldschema.service';
+
+/**
+ * Keeps everything in memory, for tests, demos and embedding without a
+ * backend. Unlike json-server it checks versions itself, so a stale write
+ * fails with 409 here rather than only in the service's read-before-write.
+ */
+export class InMemoryWorkflowRepository implements WorkflowRepository {
+  protected data: WorkflowRepositoryData;
+
+  constructor(data: Partial<WorkflowRepositoryData> = {}) {
+    this.data = {
+      workflowProcess: [],
+      workflowState: [],
+      propertyNames: [],
+      workflowActions: [],
+      accessLevels: [],
+      ...clone(data)
+    };
+  }
+
+  listSteps(): Observable<WorkflowProcessItem[]> {
+    return this.run(() => this.data.workflowProcess.map(clone));
+  }
+
+  getStep(id: string): Observable<WorkflowProcessItem> {
+    return this.run(() => clone(this.data.workflowProcess[this.findStep(id)]));
+  }
+
+  createStep(data: Partial<WorkflowProcessItem>): Observable<WorkflowProcessItem> {
+    return this.run(() => {
+      const created = { ...clone(data), id: nextStepId(this.data.workflowProcess) } as WorkflowProcessItem;
+      this.data.workflowProcess.push(created);
+      this.save();
+      return clone(created);
+    });
+  }
+
+  replaceStep(id: string, data: Partial<WorkflowProcessItem>, expectedVersion: number): Observable<WorkflowProcessItem> {
+    return this.run(() => {
+      const index = this.findStep(id);
+      const current = this.data.workflowProcess[index];
+      if ((current.version ?? 0) !== expectedVersion) {
+        throw new WorkflowRepositoryError(`Workflow step ${id} is at version ${current.version ?? 0}, not ${expectedVersion}`, 409);
+      }
+      const replaced = { ...clone(data), id } as WorkflowProcessItem;
+      this.data.workflowProcess[index] = replaced;
+      this.save();
+      return clone(replaced);
+    });
+  }
+
+  deleteStep(id: string): Observable<void> {
+    return this.run(() => {
+      this.data.workflowProcess.splice(this.findStep(id), 1);
+      this.save();
+    });
+  }
+
+  getCanvasState(id: string): Observable<SavedState | null> {
+    return this.run(() => {
+      const state = this.data.workflowState.find((s: SavedState) => String(s.id) === id);
+      return state ? clone(state) : null;
+    });
+  }
+
+  saveCanvasState(state: SavedState): Observable<SavedState> {
+    return this.run(() => {
+      const index = this.data.workflowState.findIndex((s: SavedState) => String(s.id) === String(state.id));
+      if (index === -1) {
+        this.data.workflowState.push(clone(state));
+      } else {
+        this.data.workflowState[index] = clone(state);
+      }
+      this.save();
+      return clone(state);
+    });
+  }
+
+  deleteCanvasState(id: string): Observable<void> {
+    return this.run(() => {
+      const index = this.data.workflowState.findIndex((s: SavedState) => String(s.id) === id);
+      if (index === -1) {
+        throw new WorkflowRepositoryError(`Canvas layout ${id} does not exist`, 404);
+      }
+      this.data.workflowState.splice(index, 1);
+      this.save();
+    });
+  }
+
+  getLookup(source: WorkflowLookupSource): Observable<WorkflowLookup[]> {
+    return this.run(() => this.data[source].map(clone));
+  }
+
+  /** Called after every write; subclasses persist `data` here. */
+  protected save(): void {}
+
+  // Deferred so that nothing happens until subscribed, and a resubscribe runs it again like a new request would
+  private run<T>(work: () => T): Observable<T> {
+    return defer(() => {
+      try {
+        return of(work());
+      } catch (error) {
+        return throwError(() => error);
+      }
+    });
+  }
+
+  private findStep(id: string): number {
+    const index = this.data.workflowProcess.findIndex((row: WorkflowProcessItem) => row.id === id);
+    if (index === -1) {
+      throw new WorkflowRepositoryError(`Workflow step ${id} does not exist`, 404);
+    }
+    return index;
+  }
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,48 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+
+import { JsonServerWorkflowRepository } from './jsonserverworkflowrepository';
+import { APP_CONFIG } from './app.config';
+import { SavedState } from './workflowservice.service';
+
+describe('JsonServerWorkflowRepository', () => {
+  let repository: JsonServerWorkflowRepository;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [{ provide: APP_CONFIG, useValue: { apiUrl: 'https://workflows.example.com/api/' } }]
+    });
+    repository = TestBed.inject(JsonServerWorkflowRepository);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should talk to the configured API URL', () => {
+    repository.getLookup('accessLevels').subscribe();
+
+    httpMock.expectOne('https://workflows.example.com/api/accessLevels').flush([]);
+  });
+
+  it('should send the expected version with a replaced step', () => {
+    repository.replaceStep('4', { id: '4', version: 3 }, 2).subscribe();
+
+    const put = httpMock.expectOne('https://workflows.example.com/api/workflowProcess/4');
+    expect(put.request.headers.get('If-Match')).toBe('"2"');
+    put.flush(put.request.body);
+  });
+
+  it('should create a layout the page does not have yet', () => {
+    const state: SavedState = { id: '1-10-80', items: [], arrows: [], nextId: 1 };
+    repository.saveCanvasState(state).subscribe();
+
+    httpMock.expectOne('https://workflows.example.com/api/workflowState/1-10-80').flush({}, { status: 404, statusText: 'Not Found' });
+    const post = httpMock.expectOne('https://workflows.example.com/api/workflowState');
+    expect(post.request.method).toBe('POST');
+    post.flush(state);
+  });
+});
@@ -0,0 +1,78 @@
+import { Inject, Injectable } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { catchError, map, switchMap } from 'rxjs/operators';
+import { WORKFLOW_API_URL } from './app.config';
+import { WorkflowRepository } from './workflowrepository';
+import { SavedState, WorkflowLookup, WorkflowProcessItem } from './workflowservice.service';
+import { WorkflowLookupSource } from './workflowfieldschema.service';
+
+/**
+ * Talks json-server REST conventions: one collection per resource under
+ * WORKFLOW_API_URL, PUT replaces a row, and a missing row answers 404.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class JsonServerWorkflowRepository implements WorkflowRepository {
+
+  constructor(
+    private http: HttpClient,
+    @Inject(WORKFLOW_API_URL) private apiUrl: string
+  ) { }
+
+  listSteps(): Observable<WorkflowProcessItem[]> {
+    return this.http.get<WorkflowProcessItem[]>(this.getUrl('workflowProcess'));
+  }
+
+  getStep(id: string): Observable<WorkflowProcessItem> {
+    return this.http.get<WorkflowProcessItem>(this.getUrl('workflowProcess', id));
+  }
+
+  createStep(data: Partial<WorkflowProcessItem>): Observable<WorkflowProcessItem> {
+    return this.http.post<WorkflowProcessItem>(this.getUrl('workflowProcess'), data);
+  }
+
+  // json-server ignores If-Match; a stricter backend behind the same URL can use it
+  replaceStep(id: string, data: Partial<WorkflowProcessItem>, expectedVersion: number): Observable<WorkflowProcessItem> {
+    return this.http.put<WorkflowProcessItem>(this.getUrl('workflowProcess', id), data, {
+      headers: { 'If-Match': `"${expectedVersion}"` }
+    });
+  }
+
+  deleteStep(id: string): Observable<void> {
+    return this.http.delete(this.getUrl('workflowProcess', id)).pipe(map(() => undefined));
+  }
+
+  getCanvasState(id: string): Observable<SavedState | null> {
+    return this.http.get<SavedState>(this.getUrl('workflowState', id))
+      .pipe(
+        catchError((error: any) =>
+          error instanceof HttpErrorResponse && error.status === 404 ? of(null) : throwError(() => error)
+        )
+      );
+  }
+
+  // json-server has no upsert, so look first; running this again after a lost response is harmless
+  saveCanvasState(state: SavedState): Observable<SavedState> {
+    const id = String(state.id);
+    return this.getCanvasState(id).pipe(
+      switchMap((existing: SavedState | null) => existing
+        ? this.http.put<SavedState>(this.getUrl('workflowState', id), state)
+        : this.http.post<SavedState>(this.getUrl('workflowState'), state)
+      )
+    );
+  }
+
+  deleteCanvasState(id: string): Observable<void> {
+    return this.http.delete(this.getUrl('workflowState', id)).pipe(map(() => undefined));
+  }
+
+  getLookup(source: WorkflowLookupSource): Observable<WorkflowLookup[]> {
+    return this.http.get<WorkflowLookup[]>(this.getUrl(source));
+  }
+
+  private getUrl(collection: string, id?: string): string {
+    return id === undefined ? `${this.apiUrl}/${collection}` : `${this.apiUrl}/${collection}/${id}`;
+  }
+}
@@ -0,0 +1,35 @@
+import { LocalStorageWorkflowRepository } from './localstorageworkflowrepository';
+import { WorkflowProcessItem } from './workflowservice.service';
+
+describe('LocalStorageWorkflowRepository', () => {
+  const KEY = 'taskend.workflowData.spec';
+
+  const step: Partial<WorkflowProcessItem> = { project_id: 1, logical_module_id: 10, page_id: 80, sequence: 1, name: 'Submit' };
+
+  afterEach(() => localStorage.removeItem(KEY));
+
+  it('should keep writes across instances', () => {
+    new LocalStorageWorkflowRepository(KEY).createStep(step).subscribe();
+
+    let rows: WorkflowProcessItem[] = [];
+    new LocalStorageWorkflowRepository(KEY).listSteps().subscribe((result: WorkflowProcessItem[]) => rows = result);
+    expect(rows.map((row: WorkflowProcessItem) => row.name)).toEqual(['Submit']);
+  });
+
+  it('should start from the seed until something was stored', () => {
+    let rows: WorkflowProcessItem[] = [];
+    new LocalStorageWorkflowRepository(KEY, { workflowProcess: [{ ...step, id: '3' } as WorkflowProcessItem] })
+      .listSteps().subscribe((result: WorkflowProcessItem[]) => rows = result);
+
+    expect(rows.length).toBe(1);
+  });
+
+  it('should ignore stored data it cannot read', () => {
+    localStorage.setItem(KEY, '{not json');
+    spyOn(console, 'error');
+
+    let rows: WorkflowProcessItem[] | undefined;
+    new LocalStorageWorkflowRepository(KEY).listSteps().subscribe((result: WorkflowProcessItem[]) => rows = result);
+    expect(rows).toEqual([]);
+  });
+});
@@ -0,0 +1,37 @@
+import { InMemoryWorkflowRepository } from './inmemoryworkflowrepository';
+import { WorkflowRepositoryData, WorkflowRepositoryError } from './workflowrepository';
+
+/**
+ * The in-memory repository, written through to one localStorage entry so
+ * that a designer without a backend keeps its work across reloads. Without
+ * localStorage (server rendering) it behaves as plain in-memory storage.
+ */
+export class LocalStorageWorkflowRepository extends InMemoryWorkflowRepository {
+
+  constructor(private key = 'taskend.workflowData', seed: Partial<WorkflowRepositoryData> = {}) {
+    super(LocalStorageWorkflowRepository.load(key) || seed);
+  }
+
+  protected override save(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(this.key, JSON.stringify(this.data));
+    } catch (error) {
+      // Usually the quota; the write stays in memory but would be gone after a reload
+      throw new WorkflowRepositoryError(`Could not store the workflow data: ${error instanceof Error ? error.message : error}`, 507);
+    }
+  }
+
+  private static load(key: string): Partial<WorkflowRepositoryData> | null {
+    if (typeof localStorage === 'undefined') return null;
+    const stored = localStorage.getItem(key);
+    if (!stored) return null;
+
+    try {
+      return JSON.parse(stored);
+    } catch (error) {
+      console.error('Ignoring unreadable workflow data in localStorage:', error);
+      return null;
+    }
+  }
+}
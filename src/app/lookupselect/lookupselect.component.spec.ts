@@ -0,0 +1,47 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { LookupselectComponent } from './lookupselect.component';
+
+describe('LookupselectComponent', () => {
+  let component: LookupselectComponent;
+  let fixture: ComponentFixture<LookupselectComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      declarations: [LookupselectComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(LookupselectComponent);
+    component = fixture.componentInstance;
+    component.options = [
+      { id: 1, name: 'Approve' },
+      { id: 5, name: 'Reject', description: 'Sends the record back' }
+    ];
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show the name of the selected id', () => {
+    component.value = 5;
+    expect(component.getDisplayText()).toBe('Reject');
+
+    component.value = 9;
+    expect(component.getDisplayText()).toBe('#9');
+  });
+
+  it('should filter by name or description and emit the chosen id', () => {
+    const emitted: (number | null)[] = [];
+    component.valueChange.subscribe((value: number | null) => emitted.push(value));
+
+    component.query = 'back';
+    expect(component.getFilteredOptions().map(o => o.id)).toEqual([5]);
+
+    component.choose(component.getFilteredOptions()[0]);
+    component.choose(null);
+    expect(emitted).toEqual([5, null]);
+  });
+});
@@ -0,0 +1,88 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { WorkflowLookup } from '../workflowservice.service';
+
+/**
+ * Searchable dropdown for lookup ids. Shows the entry's name while closed
+ * and filters by name, description or id while typing.
+ */
+@Component({
+  selector: 'app-lookupselect',
+  templateUrl: './lookupselect.component.html',
+  styleUrls: ['./lookupselect.component.css']
+})
+export class LookupselectComponent {
+
+  @Input() options: WorkflowLookup[] = [];
+  @Input() value: number | null = null;
+  @Input() nullable = false;
+  @Input() readOnly = false;
+  @Input() placeholder = 'Search...';
+  @Output() valueChange = new EventEmitter<number | null>();
+
+  open = false;
+  query = '';
+  activeIndex = 0;
+
+  getDisplayText(): string {
+    if (this.value == null) return '';
+    const selected = this.options.find((option: WorkflowLookup) => option.id === this.value);
+    return selected ? selected.name : `#${this.value}`;
+  }
+
+  getFilteredOptions(): WorkflowLookup[] {
+    const query = this.query.trim().toLowerCase();
+    if (!query) return this.options;
+
+    return this.options.filter((option: WorkflowLookup) =>
+      option.name.toLowerCase().includes(query) ||
+      (option.description || '').toLowerCase().includes(query) ||
+      String(option.id) === query
+    );
+  }
+
+  openList(): void {
+    if (this.readOnly) return;
+    this.open = true;
+    this.query = '';
+    const selectedIndex = this.options.findIndex((option: WorkflowLookup) => option.id === this.value);
+    this.activeIndex = Math.max(selectedIndex, 0);
+  }
+
+  close(): void {
+    this.open = false;
+    this.query = '';
+  }
+
+  onInput(event: Event): void {
+    this.query = (event.target as HTMLInputElement).value;
+    this.activeIndex = 0;
+    this.open = true;
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    const options = this.getFilteredOptions();
+
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      if (!this.open) this.openList();
+      this.activeIndex = Math.min(this.activeIndex + 1, options.length - 1);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      this.activeIndex = Math.max(this.activeIndex - 1, 0);
+    } else if (event.key === 'Enter' && this.open) {
+      event.preventDefault();
+      if (options[this.activeIndex]) this.choose(options[this.activeIndex]);
+    } else if (event.key === 'Escape' && this.open) {
+      event.stopPropagation();
+      this.close();
+    }
+  }
+
+  // Bound to mousedown so the choice lands before the input's blur closes the list
+  choose(option: WorkflowLookup | null, event?: MouseEvent): void {
+    event?.preventDefault();
+    this.value = option ? option.id : null;
+    this.valueChange.emit(this.value);
+    this.close();
+  }
+}
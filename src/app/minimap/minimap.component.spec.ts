@@ -0,0 +1,45 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { MinimapComponent } from './minimap.component';
+
+describe('MinimapComponent', () => {
+  let component: MinimapComponent;
+  let fixture: ComponentFixture<MinimapComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      declarations: [MinimapComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(MinimapComponent);
+    component = fixture.componentInstance;
+    component.items = [
+      { id: 1, label: 'Submit', type: 'action1', position: { x: 100, y: 200 } },
+      { id: 2, label: 'Approve', type: 'action2', position: { x: 400, y: 200 } }
+    ];
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should frame every node with padding', () => {
+    expect(component.getViewBox()).toBe('20 120 600 224');
+  });
+
+  it('should widen the frame to include the viewport', () => {
+    component.viewport = { x: 0, y: 0, width: 1000, height: 800 };
+    expect(component.getViewBox()).toBe('-80 -80 1160 960');
+  });
+
+  it('should draw one rect per node plus the viewport', () => {
+    component.viewport = { x: 0, y: 0, width: 1000, height: 800 };
+    fixture.detectChanges();
+
+    const element: HTMLElement = fixture.nativeElement;
+    expect(element.querySelectorAll('.minimap-node').length).toBe(2);
+    expect(element.querySelector('.minimap-viewport')).toBeTruthy();
+  });
+});
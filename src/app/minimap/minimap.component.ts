@@ -0,0 +1,120 @@
+import { Component, ElementRef, EventEmitter, Input, OnDestroy, Output, ViewChild } from '@angular/core';
+import { DraggableItem, Position } from '../workflowservice.service';
+
+/** Visible part of the canvas, in canvas coordinates. */
+export interface MinimapViewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MinimapArrow {
+  path: string;
+  strokeDasharray?: string;
+}
+
+/**
+ * Scaled-down overview of the designer canvas. Draws every node and arrow,
+ * outlines the visible viewport and emits the canvas point to centre on when
+ * the map is clicked or dragged.
+ */
+@Component({
+  selector: 'app-minimap',
+  templateUrl: './minimap.component.html',
+  styleUrls: ['./minimap.component.css']
+})
+export class MinimapComponent implements OnDestroy {
+
+  @ViewChild('map', { static: false }) mapRef?: ElementRef<SVGSVGElement>;
+
+  @Input() items: DraggableItem[] = [];
+  @Input() arrows: MinimapArrow[] = [];
+  @Input() viewport: MinimapViewport | null = null;
+  @Input() nodeWidth = 140;
+  @Input() nodeHeight = 64;
+  @Output() navigate = new EventEmitter<Position>();
+
+  dragging = false;
+
+  private readonly PADDING = 80;
+  private frozenViewBox: string | null = null;
+  private stopDrag: (() => void) | null = null;
+
+  ngOnDestroy(): void {
+    if (this.stopDrag) {
+      this.stopDrag();
+    }
+  }
+
+  /** Frames the nodes and the viewport together so neither drops off the map. */
+  getViewBox(): string {
+    if (this.frozenViewBox) return this.frozenViewBox;
+
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const item of this.items) {
+      xs.push(item.position.x, item.position.x + this.nodeWidth);
+      ys.push(item.position.y, item.position.y + this.nodeHeight);
+    }
+    if (this.viewport) {
+      xs.push(this.viewport.x, this.viewport.x + this.viewport.width);
+      ys.push(this.viewport.y, this.viewport.y + this.viewport.height);
+    }
+    if (xs.length === 0) return '0 0 1 1';
+
+    const minX = Math.min(...xs) - this.PADDING;
+    const minY = Math.min(...ys) - this.PADDING;
+    const width = Math.max(...xs) + this.PADDING - minX;
+    const height = Math.max(...ys) + this.PADDING - minY;
+    return `${minX} ${minY} ${width} ${height}`;
+  }
+
+  getNodeClass(item: DraggableItem): string {
+    return `minimap-node ${item.type}`;
+  }
+
+  onMouseDown(event: MouseEvent): void {
+    if (event.button !== 0) return;
+    event.preventDefault();
+
+    // Hold the framing still while dragging, otherwise moving the viewport
+    // rescales the map under the pointer
+    this.frozenViewBox = this.getViewBox();
+    this.dragging = true;
+    this.emitPoint(event);
+
+    const moveHandler = (e: MouseEvent) => this.emitPoint(e);
+    const upHandler = () => this.stopDrag?.();
+
+    this.stopDrag = () => {
+      this.frozenViewBox = null;
+      this.dragging = false;
+      this.stopDrag = null;
+      document.removeEventListener('mousemove', moveHandler);
+      document.removeEventListener('mouseup', upHandler);
+    };
+
+    document.addEventListener('mousemove', moveHandler);
+    document.addEventListener('mouseup', upHandler);
+  }
+
+  private emitPoint(event: MouseEvent): void {
+    const point = this.clientToCanvas(event.clientX, event.clientY);
+    if (point) {
+      this.navigate.emit(point);
+    }
+  }
+
+  private clientToCanvas(clientX: number, clientY: number): Position | null {
+    const map = this.mapRef?.nativeElement;
+    const matrix = map?.getScreenCTM();
+    if (!map || !matrix) return null;
+
+    const point = map.createSVGPoint();
+    point.x = clientX;
+    point.y = clientY;
+    const canvasPoint = point.matrixTransform(matrix.inverse());
+    return { x: canvasPoint.x, y: canvasPoint.y };
+  }
+}
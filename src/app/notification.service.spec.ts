@@ -0,0 +1,43 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpErrorResponse } from '@angular/common/http';
+import { MatSnackBar, MatSnackBarRef, TextOnlySnackBar } from '@angular/material/snack-bar';
+import { Subject } from 'rxjs';
+
+import { NotificationService } from './notification.service';
+import { WorkflowRequestError } from './workflowservice.service';
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+  let snackBar: jasmine.SpyObj<MatSnackBar>;
+  let action: Subject<void>;
+
+  beforeEach(() => {
+    action = new Subject<void>();
+    const snackBarRef = jasmine.createSpyObj<MatSnackBarRef<TextOnlySnackBar>>('MatSnackBarRef', ['onAction']);
+    snackBarRef.onAction.and.returnValue(action.asObservable());
+    snackBar = jasmine.createSpyObj<MatSnackBar>('MatSnackBar', ['open']);
+    snackBar.open.and.returnValue(snackBarRef);
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: MatSnackBar, useValue: snackBar }]
+    });
+    service = TestBed.inject(NotificationService);
+  });
+
+  it('should offer a retry for a network failure', () => {
+    const retry = jasmine.createSpy('retry');
+    service.error(WorkflowRequestError.from(new HttpErrorResponse({ status: 0 }), 'save the canvas layout'), retry);
+
+    expect(snackBar.open.calls.mostRecent().args.slice(0, 2))
+      .toEqual(['Could not save the canvas layout: the server is unreachable', 'Retry']);
+
+    action.next();
+    expect(retry).toHaveBeenCalled();
+  });
+
+  it('should not offer a retry for data the server rejected', () => {
+    service.error(WorkflowRequestError.from(new HttpErrorResponse({ status: 422 }), 'save step "Verify"'), () => {});
+
+    expect(snackBar.open.calls.mostRecent().args[1]).toBe('Dismiss');
+  });
+});
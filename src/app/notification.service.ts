@@ -0,0 +1,48 @@
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { WorkflowRequestError } from './workflowservice.service';
+
+/**
+ * Snackbar messages for the outcome of server requests. Failures that may
+ * pass (network, server) get a Retry action when the caller can repeat them.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationService {
+
+  private readonly DURATION = 4000;
+  // Long enough to reach for the Retry button
+  private readonly RETRY_DURATION = 10000;
+
+  private isBrowser: boolean;
+
+  constructor(
+    private snackBar: MatSnackBar,
+    @Inject(PLATFORM_ID) private platformId: Object
+  ) {
+    this.isBrowser = isPlatformBrowser(this.platformId);
+  }
+
+  info(message: string): void {
+    if (!this.isBrowser) return;
+    this.snackBar.open(message, undefined, { duration: this.DURATION });
+  }
+
+  error(error: unknown, retry?: () => void): void {
+    if (!this.isBrowser) return;
+
+    const failure = error instanceof WorkflowRequestError ? error : WorkflowRequestError.from(error, 'complete the request');
+    const canRetry = !!retry && failure.retryable;
+
+    const ref = this.snackBar.open(failure.message, canRetry ? 'Retry' : 'Dismiss', {
+      duration: canRetry ? this.RETRY_DURATION : this.DURATION,
+      panelClass: 'error-snackbar'
+    });
+
+    if (canRetry) {
+      ref.onAction().subscribe(() => retry!());
+    }
+  }
+}
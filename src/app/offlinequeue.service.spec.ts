@@ -0,0 +1,73 @@
+import { PLATFORM_ID } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+
+import { OfflinequeueService } from './offlinequeue.service';
+import { WorkflowPageRef } from './workflowservice.service';
+
+describe('OfflinequeueService', () => {
+  let service: OfflinequeueService;
+
+  const page: WorkflowPageRef = { project_id: 1, logical_module_id: 10, page_id: 80 };
+
+  beforeEach(() => {
+    // Memory only, so nothing leaks between tests through IndexedDB
+    TestBed.configureTestingModule({
+      providers: [{ provide: PLATFORM_ID, useValue: 'server' }]
+    });
+    service = TestBed.inject(OfflinequeueService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should count as restored at once when there is no IndexedDB to read', () => {
+    let restored = false;
+    service.whenRestored().subscribe(() => restored = true);
+
+    expect(restored).toBeTrue();
+  });
+
+  it('should fold repeated edits of a row into the first one', () => {
+    service.add({ kind: 'update', id: '4', data: { id: '4', name: 'Review', version: 3 } });
+    service.add({ kind: 'update', id: '4', data: { id: '4', name: 'Approve', version: 4 } });
+
+    expect(service.size).toBe(1);
+    expect(service.peek()).toEqual({ kind: 'update', id: '4', data: { id: '4', name: 'Approve', version: 3 } });
+  });
+
+  it('should forget a row created and deleted while offline', () => {
+    const tempId = service.createTempId();
+    service.add({ kind: 'create', tempId, data: { name: 'Draft' } });
+    service.add({ kind: 'update', id: tempId, data: { id: tempId, name: 'Draft 2', version: 1 } });
+    service.add({ kind: 'delete', id: tempId });
+
+    expect(service.hasPending()).toBeFalse();
+  });
+
+  it('should point queued edits at the id the server gave the row', () => {
+    const tempId = service.createTempId();
+    service.add({ kind: 'create', tempId, data: { name: 'Draft' } });
+    service.add({ kind: 'update', id: tempId, data: { id: tempId, name: 'Draft 2', version: 1 } });
+    service.add({
+      kind: 'save-canvas',
+      page,
+      state: { items: [{ id: 1, label: 'Draft', type: 'action1', position: { x: 0, y: 0 }, workflowId: tempId }], arrows: [], nextId: 2 }
+    });
+
+    service.resolveTempId(tempId, '12');
+    service.shift();
+
+    expect(service.peek()).toEqual({ kind: 'update', id: '12', data: { id: '12', name: 'Draft 2', version: 1 } });
+    service.shift();
+    const save = service.peek();
+    expect(save?.kind === 'save-canvas' && save.state.items[0].workflowId).toBe('12');
+  });
+
+  it('should keep only the latest canvas of a page', () => {
+    service.add({ kind: 'save-canvas', page, state: { items: [], arrows: [], nextId: 1 } });
+    service.add({ kind: 'save-canvas', page, state: { items: [], arrows: [], nextId: 5 } });
+
+    expect(service.size).toBe(1);
+  });
+});
@@ -0,0 +1,200 @@
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { filter, map, take } from 'rxjs/operators';
+import { DraggableItem, SavedState, WorkflowPageRef, WorkflowProcessItem } from './workflowservice.service';
+
+export type OfflineMutation =
+  | { kind: 'create'; tempId: string; data: Partial<WorkflowProcessItem> }
+  | { kind: 'update'; id: string; data: Partial<WorkflowProcessItem> }
+  | { kind: 'delete'; id: string }
+  | { kind: 'save-canvas'; page: WorkflowPageRef; state: SavedState }
+  | { kind: 'delete-canvas'; page: WorkflowPageRef };
+
+/**
+ * Writes made while the JSON server was unreachable, in the order they were
+ * made. Kept in IndexedDB so that closing the tab does not lose them; repeated
+ * edits of one row or one canvas collapse into a single entry.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OfflinequeueService {
+
+  private readonly DB_NAME = 'taskend';
+  private readonly STORE = 'offlineQueue';
+  private readonly KEY = 'mutations';
+  // Rows created offline go by this kind of id until the server hands out a real one
+  private readonly TEMP_ID_PREFIX = 'offline-';
+
+  private mutations: OfflineMutation[] = [];
+  private pending = new BehaviorSubject<number>(0);
+  private restored = new BehaviorSubject<boolean>(false);
+  private database: Promise<IDBDatabase | null>;
+  private isBrowser: boolean;
+
+  readonly pending$: Observable<number> = this.pending.asObservable();
+
+  constructor(@Inject(PLATFORM_ID) private platformId: Object) {
+    this.isBrowser = isPlatformBrowser(this.platformId);
+    this.database = this.openDatabase();
+    this.restore();
+  }
+
+  /**
+   * Emits once the entries an earlier session stored are back in the queue,
+   * straight away when there is nothing to read. Until then hasPending() and
+   * peek() only know about this session's entries.
+   */
+  whenRestored(): Observable<void> {
+    return this.restored.pipe(filter((done: boolean) => done), take(1), map(() => undefined));
+  }
+
+  get size(): number {
+    return this.mutations.length;
+  }
+
+  hasPending(): boolean {
+    return this.mutations.length > 0;
+  }
+
+  peek(): OfflineMutation | null {
+    return this.mutations.length > 0 ? this.mutations[0] : null;
+  }
+
+  createTempId(): string {
+    return this.TEMP_ID_PREFIX + Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+  }
+
+  isTempId(id: string): boolean {
+    return id.startsWith(this.TEMP_ID_PREFIX);
+  }
+
+  add(mutation: OfflineMutation): void {
+    switch (mutation.kind) {
+      case 'update': {
+        // Keep the version the first queued edit was based on; that is what the server still has
+        const queued = this.mutations.find((other: OfflineMutation) => other.kind === 'update' && other.id === mutation.id);
+        if (queued && queued.kind === 'update') {
+          queued.data = { ...mutation.data, version: queued.data.version };
+        } else {
+          this.mutations.push(mutation);
+        }
+        break;
+      }
+      case 'delete':
+        this.mutations = this.mutations.filter((other: OfflineMutation) => !this.targetsRow(other, mutation.id));
+        // A row that never reached the server needs no delete either
+        if (!this.isTempId(mutation.id)) {
+          this.mutations.push(mutation);
+        }
+        break;
+      case 'save-canvas':
+      case 'delete-canvas':
+        this.mutations = this.mutations.filter((other: OfflineMutation) => !this.targetsCanvas(other, mutation.page));
+        this.mutations.push(mutation);
+        break;
+      case 'create':
+        this.mutations.push(mutation);
+        break;
+    }
+    this.changed();
+  }
+
+  /** Drops the entry at the head of the queue once the server has taken it. */
+  shift(): void {
+    this.mutations.shift();
+    this.changed();
+  }
+
+  /** Points the entries still queued at the id the server gave a row created offline. */
+  resolveTempId(tempId: string, id: string): void {
+    this.mutations.forEach((mutation: OfflineMutation) => {
+      if ((mutation.kind === 'update' || mutation.kind === 'delete') && mutation.id === tempId) {
+        mutation.id = id;
+      }
+      if (mutation.kind === 'update' && mutation.data.id === tempId) {
+        mutation.data = { ...mutation.data, id };
+      }
+      if (mutation.kind === 'save-canvas') {
+        mutation.state.items.forEach((item: DraggableItem) => {
+          if (item.workflowId === tempId) item.workflowId = id;
+        });
+      }
+    });
+    this.changed();
+  }
+
+  private targetsRow(mutation: OfflineMutation, id: string): boolean {
+    return (mutation.kind === 'create' && mutation.tempId === id) ||
+           ((mutation.kind === 'update' || mutation.kind === 'delete') && mutation.id === id);
+  }
+
+  private targetsCanvas(mutation: OfflineMutation, page: WorkflowPageRef): boolean {
+    return (mutation.kind === 'save-canvas' || mutation.kind === 'delete-canvas') &&
+           mutation.page.project_id === page.project_id &&
+           mutation.page.logical_module_id === page.logical_module_id &&
+           mutation.page.page_id === page.page_id;
+  }
+
+  private changed(): void {
+    this.pending.next(this.mutations.length);
+    this.persist();
+  }
+
+  private persist(): void {
+    const snapshot = JSON.parse(JSON.stringify(this.mutations));
+    this.database.then((db: IDBDatabase | null) => {
+      if (!db) return;
+      const transaction = db.transaction(this.STORE, 'readwrite');
+      transaction.objectStore(this.STORE).put(snapshot, this.KEY);
+      transaction.onerror = () => console.error('Error saving the offline queue:', transaction.error);
+    });
+  }
+
+  // Entries queued before the database answered go after the stored ones
+  private restore(): void {
+    // Without IndexedDB there is nothing stored, and writes need not wait a tick to find that out
+    if (!this.isBrowser || typeof indexedDB === 'undefined') {
+      this.restored.next(true);
+      return;
+    }
+
+    this.database.then((db: IDBDatabase | null) => {
+      if (!db) {
+        this.restored.next(true);
+        return;
+      }
+      const request = db.transaction(this.STORE, 'readonly').objectStore(this.STORE).get(this.KEY);
+      request.onsuccess = () => {
+        const stored: OfflineMutation[] = Array.isArray(request.result) ? request.result : [];
+        if (stored.length > 0) {
+          this.mutations = [...stored, ...this.mutations];
+          this.changed();
+        }
+        this.restored.next(true);
+      };
+      request.onerror = () => {
+        console.error('Error reading the offline queue:', request.error);
+        this.restored.next(true);
+      };
+    });
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.isBrowser || typeof indexedDB === 'undefined') {
+      return Promise.resolve(null);
+    }
+
+    return new Promise<IDBDatabase | null>((resolve) => {
+      const request = indexedDB.open(this.DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(this.STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Still queues in memory, just not across reloads
+        console.error('Error opening the offline queue database:', request.error);
+        resolve(null);
+      };
+    });
+  }
+}
@@ -0,0 +1,27 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { FormsModule } from '@angular/forms';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { RouterTestingModule } from '@angular/router/testing';
+
+import { StatediagramComponent } from './statediagram.component';
+
+describe('StatediagramComponent', () => {
+  let component: StatediagramComponent;
+  let fixture: ComponentFixture<StatediagramComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [FormsModule, HttpClientTestingModule, RouterTestingModule],
+      declarations: [StatediagramComponent]
+    })
+    .compileComponents();
+    
+    fixture = TestBed.createComponent(StatediagramComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,212 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { ActivatedRoute, ParamMap } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { WorkflowserviceService, WorkflowPageRef, WorkflowProcessItem, WorkflowLookup, Position } from '../workflowservice.service';
+import { StatemachineService, StatusMachine, StatusNode, StatusTransition } from '../statemachine.service';
+import { NotificationService } from '../notification.service';
+
+interface DiagramState {
+  node: StatusNode;
+  position: Position;
+}
+
+interface DiagramEdge {
+  transition: StatusTransition;
+  path: string;
+  labelPosition: Position;
+}
+
+@Component({
+  selector: 'app-statediagram',
+  templateUrl: './statediagram.component.html',
+  styleUrls: ['./statediagram.component.css']
+})
+export class StatediagramComponent implements OnInit, OnDestroy {
+
+  page: WorkflowPageRef | null = null;
+  rows: WorkflowProcessItem[] = [];
+  propertyIds: number[] = [];
+  selectedPropertyId: number | null = null;
+  propertyNames: WorkflowLookup[] = [];
+
+  machine: StatusMachine | null = null;
+  states: DiagramState[] = [];
+  edges: DiagramEdge[] = [];
+  diagramWidth = 0;
+  diagramHeight = 0;
+
+  readonly STATE_WIDTH = 140;
+  readonly STATE_HEIGHT = 48;
+  private readonly LAYER_SPACING = 240;
+  private readonly ROW_SPACING = 110;
+  private readonly MARGIN = 60;
+
+  private routeSubscription?: Subscription;
+
+  constructor(
+    private workflowService: WorkflowserviceService,
+    private statemachineService: StatemachineService,
+    private notifications: NotificationService,
+    private route: ActivatedRoute
+  ) { }
+
+  ngOnInit(): void {
+    this.routeSubscription = this.route.paramMap.subscribe((params: ParamMap) => {
+      this.page = {
+        project_id: Number(params.get('projectId')),
+        logical_module_id: Number(params.get('moduleId')),
+        page_id: Number(params.get('pageId'))
+      };
+      this.loadRows();
+    });
+
+    this.workflowService.getPropertyNames()
+      .subscribe({
+        next: (propertyNames: WorkflowLookup[]) => {
+          this.propertyNames = propertyNames;
+        },
+        error: (error: any) => {
+          console.error('Error loading property names:', error);
+        }
+      });
+  }
+
+  ngOnDestroy(): void {
+    if (this.routeSubscription) {
+      this.routeSubscription.unsubscribe();
+    }
+  }
+
+  getWorkflowLink(): (string | number)[] {
+    if (!this.page) return ['/'];
+    return [
+      '/projects', this.page.project_id,
+      'modules', this.page.logical_module_id,
+      'pages', this.page.page_id,
+      'workflow'
+    ];
+  }
+
+  getPropertyName(propertyId: number): string {
+    return this.workflowService.getLookupName(this.propertyNames, propertyId);
+  }
+
+  onPropertyChange(propertyId: number | null): void {
+    this.selectedPropertyId = propertyId;
+    this.buildDiagram();
+  }
+
+  private loadRows(): void {
+    const page = this.page;
+    if (!page) return;
+
+    this.workflowService.getWorkflowProcessByPage(page)
+      .subscribe({
+        next: (rows: WorkflowProcessItem[]) => {
+          if (page !== this.page) return;
+
+          this.rows = rows;
+          this.propertyIds = this.statemachineService.getPropertyIds(rows);
+          if (this.selectedPropertyId == null || !this.propertyIds.includes(this.selectedPropertyId)) {
+            this.selectedPropertyId = this.propertyIds.length > 0 ? this.propertyIds[0] : null;
+          }
+          this.buildDiagram();
+        },
+        error: (error: any) => {
+          if (page !== this.page) return;
+          this.notifications.error(error, () => {
+            if (page === this.page) this.loadRows();
+          });
+        }
+      });
+  }
+
+  private buildDiagram(): void {
+    this.machine = this.statemachineService.build(this.rows, this.selectedPropertyId);
+
+    const layers = this.assignLayers(this.machine);
+    const rowsPerLayer = new Map<number, number>();
+
+    this.states = this.machine.states.map((node: StatusNode) => {
+      const layer = layers.get(node.name) || 0;
+      const row = rowsPerLayer.get(layer) || 0;
+      rowsPerLayer.set(layer, row + 1);
+
+      return {
+        node,
+        position: {
+          x: this.MARGIN + layer * this.LAYER_SPACING,
+          y: this.MARGIN + row * this.ROW_SPACING
+        }
+      };
+    });
+
+    this.edges = this.machine.transitions.map((transition: StatusTransition, index: number) =>
+      this.buildEdge(transition, index)
+    );
+
+    this.diagramWidth = Math.max(...this.states.map((s: DiagramState) => s.position.x + this.STATE_WIDTH), 0) + this.MARGIN * 2;
+    this.diagramHeight = Math.max(
+      ...this.states.map((s: DiagramState) => s.position.y + this.STATE_HEIGHT),
+      ...this.edges.map((e: DiagramEdge) => e.labelPosition.y + 40),
+      0
+    ) + this.MARGIN * 2;
+  }
+
+  // Breadth-first distance from the initial status; unreachable statuses go in a last column
+  private assignLayers(machine: StatusMachine): Map<string, number> {
+    const layers = new Map<string, number>();
+    const queue = machine.states.filter((s: StatusNode) => s.initial).map((s: StatusNode) => s.name);
+    queue.forEach((name: string) => layers.set(name, 0));
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      machine.transitions
+        .filter((t: StatusTransition) => t.from === current && !layers.has(t.to))
+        .forEach((t: StatusTransition) => {
+          layers.set(t.to, layers.get(current)! + 1);
+          queue.push(t.to);
+        });
+    }
+
+    const lastLayer = Math.max(...layers.values(), -1) + 1;
+    machine.states
+      .filter((s: StatusNode) => !layers.has(s.name))
+      .forEach((s: StatusNode) => layers.set(s.name, lastLayer));
+
+    return layers;
+  }
+
+  private buildEdge(transition: StatusTransition, index: number): DiagramEdge {
+    const from = this.states.find((s: DiagramState) => s.node.name === transition.from)!.position;
+    const to = this.states.find((s: DiagramState) => s.node.name === transition.to)!.position;
+
+    if (to.x > from.x) {
+      const startX = from.x + this.STATE_WIDTH;
+      const startY = from.y + this.STATE_HEIGHT / 2;
+      const endX = to.x - 3;
+      const endY = to.y + this.STATE_HEIGHT / 2;
+      const control = (endX - startX) / 2;
+
+      return {
+        transition,
+        path: `M${startX},${startY} C${startX + control},${startY} ${endX - control},${endY} ${endX},${endY}`,
+        labelPosition: { x: (startX + endX) / 2, y: (startY + endY) / 2 - 8 }
+      };
+    }
+
+    // Backward and same-column transitions loop below the statuses
+    const startX = from.x + this.STATE_WIDTH / 2;
+    const startY = from.y + this.STATE_HEIGHT;
+    const endX = to.x + this.STATE_WIDTH / 2 + (to.x === from.x ? 20 : 0);
+    const endY = to.y + this.STATE_HEIGHT + 3;
+    const depth = 60 + (index % 3) * 25;
+    const bottom = Math.max(startY, endY) + depth;
+
+    return {
+      transition,
+      path: `M${startX},${startY} C${startX},${bottom} ${endX},${bottom} ${endX},${endY}`,
+      labelPosition: { x: (startX + endX) / 2, y: bottom - depth / 4 }
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import { TestBed } from '@angular/core/testing';
+
+import { StatemachineService } from './statemachine.service';
+import { WorkflowProcessItem } from './workflowservice.service';
+
+describe('StatemachineService', () => {
+  let service: StatemachineService;
+
+  const step = (id: string, sequence: number, input: string, output: string, extra: Partial<WorkflowProcessItem> = {}): WorkflowProcessItem => ({
+    id,
+    project_id: 1,
+    logical_module_id: 10,
+    page_id: 80,
+    sequence,
+    name: `Step ${sequence}`,
+    input_property_name_id: 410,
+    input_property_value: input,
+    return_input_property_value: null,
+    output_property_name_id: 410,
+    output_property_value: output,
+    output_property_reject_value: null,
+    ...extra
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(StatemachineService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should turn steps into labelled transitions between statuses', () => {
+    const machine = service.build([
+      step('3', 1, 'New', 'Submitted'),
+      step('4', 2, 'Submitted', 'Verified', { return_input_property_value: 'Resubmitted' }),
+      step('5', 3, 'Verified', 'Approved', { output_property_reject_value: 'Resubmitted' })
+    ]);
+
+    expect(machine.states.map(s => s.name)).toEqual(['New', 'Submitted', 'Verified', 'Resubmitted', 'Approved']);
+    expect(machine.transitions).toContain({ from: 'Resubmitted', to: 'Verified', label: 'Step 2 (resubmitted)', kind: 'resubmit', workflowId: '4' });
+    expect(machine.transitions).toContain({ from: 'Verified', to: 'Resubmitted', label: 'Step 3 (reject)', kind: 'reject', workflowId: '5' });
+    expect(machine.unreachable).toEqual([]);
+    expect(machine.deadEnds).toEqual([]);
+  });
+
+  it('should flag unreachable and dead-end statuses', () => {
+    const machine = service.build([
+      step('3', 1, 'New', 'Submitted', { output_property_reject_value: 'Cancelled' }),
+      step('4', 2, 'Submitted', 'Verified', { return_input_property_value: 'Reapproved' })
+    ]);
+
+    expect(machine.unreachable).toEqual(['Reapproved']);
+    expect(machine.deadEnds).toEqual(['Cancelled']);
+  });
+
+  it('should only use steps of the chosen property', () => {
+    const machine = service.build([
+      step('3', 1, 'New', 'Submitted'),
+      step('4', 2, 'Open', 'Closed', { input_property_name_id: 397, output_property_name_id: 397 })
+    ], 397);
+
+    expect(machine.states.map(s => s.name)).toEqual(['Open', 'Closed']);
+  });
+});
@@ -0,0 +1,128 @@
+import { Injectable } from '@angular/core';
+import { WorkflowProcessItem } from './workflowservice.service';
+
+export type TransitionKind = 'continue' | 'reject' | 'resubmit';
+
+export interface StatusTransition {
+  from: string;
+  to: string;
+  label: string;
+  kind: TransitionKind;
+  workflowId: string;
+}
+
+export interface StatusNode {
+  name: string;
+  initial: boolean;
+  final: boolean;
+  reachable: boolean;
+  deadEnd: boolean;
+}
+
+export interface StatusMachine {
+  propertyIds: number[];
+  states: StatusNode[];
+  transitions: StatusTransition[];
+  unreachable: string[];
+  deadEnds: string[];
+}
+
+/**
+ * Reads a page's workflowProcess rows as transitions between the values of a
+ * status property: each step moves a record from its input value to its
+ * output value, optionally to a reject value, and accepts resubmitted records
+ * in its return value.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StatemachineService {
+
+  getPropertyIds(rows: WorkflowProcessItem[]): number[] {
+    const ids = new Set<number>();
+    rows.forEach((row: WorkflowProcessItem) => {
+      if (row['input_property_name_id'] != null) ids.add(row['input_property_name_id']);
+      if (row['output_property_name_id'] != null) ids.add(row['output_property_name_id']);
+    });
+    return [...ids].sort((a: number, b: number) => a - b);
+  }
+
+  build(rows: WorkflowProcessItem[], propertyId?: number | null): StatusMachine {
+    const sorted = [...rows]
+      .filter((row: WorkflowProcessItem) =>
+        propertyId == null ||
+        row['input_property_name_id'] === propertyId ||
+        row['output_property_name_id'] === propertyId
+      )
+      .sort((a: WorkflowProcessItem, b: WorkflowProcessItem) => (a.sequence || 0) - (b.sequence || 0));
+
+    const stateNames: string[] = [];
+    const addState = (value: any): string | null => {
+      const name = this.normalize(value);
+      if (name && !stateNames.includes(name)) stateNames.push(name);
+      return name || null;
+    };
+
+    const transitions: StatusTransition[] = [];
+    sorted.forEach((row: WorkflowProcessItem) => {
+      const input = addState(row['input_property_value']);
+      const output = addState(row['output_property_value']);
+      const reject = addState(row['output_property_reject_value']);
+      const resubmitted = addState(row['return_input_property_value']);
+
+      if (input && output) {
+        transitions.push({ from: input, to: output, label: row.name, kind: 'continue', workflowId: row.id });
+      }
+      if (input && reject) {
+        transitions.push({ from: input, to: reject, label: `${row.name} (reject)`, kind: 'reject', workflowId: row.id });
+      }
+      if (resubmitted && output && resubmitted !== input) {
+        transitions.push({ from: resubmitted, to: output, label: `${row.name} (resubmitted)`, kind: 'resubmit', workflowId: row.id });
+      }
+    });
+
+    const hasIncoming = (name: string) => transitions.some((t: StatusTransition) => t.to === name);
+    const hasOutgoing = (name: string) => transitions.some((t: StatusTransition) => t.from === name);
+
+    // Records start in the input value of the first step; other values nothing leads to are orphans
+    const first = sorted[0];
+    const initial = new Set<string>();
+    const firstInput = first ? this.normalize(first['input_property_value']) : '';
+    if (firstInput) initial.add(firstInput);
+
+    const last = sorted[sorted.length - 1];
+    const finalState = last ? this.normalize(last['output_property_value']) : '';
+
+    const reachable = new Set<string>(initial);
+    const queue = [...initial];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      transitions
+        .filter((t: StatusTransition) => t.from === current && !reachable.has(t.to))
+        .forEach((t: StatusTransition) => {
+          reachable.add(t.to);
+          queue.push(t.to);
+        });
+    }
+
+    const states: StatusNode[] = stateNames.map((name: string) => ({
+      name,
+      initial: initial.has(name),
+      final: name === finalState,
+      reachable: reachable.has(name),
+      deadEnd: name !== finalState && hasIncoming(name) && !hasOutgoing(name)
+    }));
+
+    return {
+      propertyIds: this.getPropertyIds(sorted),
+      states,
+      transitions,
+      unreachable: states.filter((s: StatusNode) => !s.reachable).map((s: StatusNode) => s.name),
+      deadEnds: states.filter((s: StatusNode) => s.deadEnd).map((s: StatusNode) => s.name)
+    };
+  }
+
+  private normalize(value: any): string {
+    return value == null ? '' : String(value).trim();
+  }
+}
@@ -0,0 +1,59 @@
+import { TestBed } from '@angular/core/testing';
+
+import { WorkflowfieldschemaService } from './workflowfieldschema.service';
+
+describe('WorkflowfieldschemaService', () => {
+  let service: WorkflowfieldschemaService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(WorkflowfieldschemaService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should group known fields in schema order and put unknown keys under Other', () => {
+    const groups = service.getGroups({
+      position: { x: 0, y: 0 },
+      name: 'Entry',
+      sequence: 1,
+      legacy_flag: 'y',
+      createddate: '2024-01-01 00:00:00'
+    });
+
+    expect(groups.map(g => g.id)).toEqual(['general', 'audit', 'other']);
+    expect(groups[0].fields.map(f => f.key)).toEqual(['sequence', 'name']);
+  });
+
+  it('should clear nullable fields back to null', () => {
+    expect(service.parse(service.getField('reject_action_id'), '')).toBeNull();
+    expect(service.parse(service.getField('return_input_property_value'), ' ')).toBeNull();
+    expect(service.parse(service.getField('sequence'), '3')).toBe(3);
+  });
+
+  it('should convert datetimes between the row and input formats', () => {
+    const field = service.getField('createddate');
+
+    expect(service.format(field, '2024-01-05 09:30:00')).toBe('2024-01-05T09:30:00');
+    expect(service.parse(field, '2024-01-05T09:30')).toBe('2024-01-05 09:30:00');
+  });
+
+  it('should report missing and malformed values', () => {
+    const errors = service.validate({
+      position: { x: 0, y: 0 },
+      sequence: 0,
+      name: '',
+      reject_action_id: null,
+      work_flow_action_id: 1.5,
+      lastmodifiedby: null
+    });
+
+    expect(errors).toEqual({
+      sequence: 'Sequence must be at least 1.',
+      name: 'Name is required.',
+      work_flow_action_id: 'Action must be a whole number.'
+    });
+  });
+});
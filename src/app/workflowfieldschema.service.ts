@@ -0,0 +1,165 @@
+import { Injectable } from '@angular/core';
+import { WorkflowProperties } from './workflowservice.service';
+
+export type WorkflowFieldType = 'text' | 'integer' | 'datetime' | 'lookup' | 'handlers';
+
+export type WorkflowLookupSource = 'propertyNames' | 'workflowActions' | 'accessLevels';
+
+export type WorkflowFieldGroupId = 'general' | 'input' | 'output' | 'reject' | 'execution' | 'audit' | 'other';
+
+export interface WorkflowFieldSchema {
+  key: string;
+  label: string;
+  type: WorkflowFieldType;
+  group: WorkflowFieldGroupId;
+  required?: boolean;
+  nullable?: boolean;
+  readOnly?: boolean;
+  lookup?: WorkflowLookupSource;
+  min?: number;
+  maxLength?: number;
+  hint?: string;
+}
+
+export interface WorkflowFieldGroup {
+  id: WorkflowFieldGroupId;
+  label: string;
+  fields: WorkflowFieldSchema[];
+}
+
+export type WorkflowFieldErrors = { [key: string]: string };
+
+const GROUP_LABELS: { [id in WorkflowFieldGroupId]: string } = {
+  general: 'General',
+  input: 'Input',
+  output: 'Output',
+  reject: 'Reject',
+  execution: 'Execution',
+  audit: 'Audit',
+  other: 'Other'
+};
+
+export const WORKFLOW_FIELDS: WorkflowFieldSchema[] = [
+  { key: 'sequence', label: 'Sequence', type: 'integer', group: 'general', required: true, min: 1 },
+  { key: 'name', label: 'Name', type: 'text', group: 'general', required: true, maxLength: 100 },
+
+  { key: 'input_property_name_id', label: 'Input property', type: 'lookup', group: 'input', required: true, lookup: 'propertyNames' },
+  { key: 'input_property_value', label: 'Input value', type: 'text', group: 'input', required: true },
+  { key: 'return_input_property_value', label: 'Resubmitted value', type: 'text', group: 'input', nullable: true,
+    hint: 'Status a rejected record comes back to this step with' },
+
+  { key: 'output_property_name_id', label: 'Output property', type: 'lookup', group: 'output', required: true, lookup: 'propertyNames' },
+  { key: 'output_property_value', label: 'Output value', type: 'text', group: 'output', required: true },
+  { key: 'output_property_query_by', label: 'Output query by', type: 'text', group: 'output', nullable: true },
+  { key: 'output_property_onwards_query_by', label: 'Onwards query by', type: 'text', group: 'output', nullable: true },
+
+  { key: 'reject_action_id', label: 'Reject action', type: 'lookup', group: 'reject', nullable: true, lookup: 'workflowActions' },
+  { key: 'output_property_reject_value', label: 'Reject value', type: 'text', group: 'reject', nullable: true },
+  { key: 'output_property_reject_query_by', label: 'Reject query by', type: 'text', group: 'reject', nullable: true },
+
+  { key: 'work_flow_action_id', label: 'Action', type: 'lookup', group: 'execution', required: true, lookup: 'workflowActions' },
+  { key: 'work_flow_access_level_id', label: 'Access level', type: 'lookup', group: 'execution', required: true, lookup: 'accessLevels' },
+  { key: 'execute', label: 'Execute', type: 'handlers', group: 'execution' },
+
+  { key: 'createdby', label: 'Created by', type: 'integer', group: 'audit', readOnly: true },
+  { key: 'createddate', label: 'Created', type: 'datetime', group: 'audit', readOnly: true },
+  { key: 'lastmodifiedby', label: 'Last modified by', type: 'integer', group: 'audit', readOnly: true, nullable: true },
+  { key: 'lastmodifieddate', label: 'Last modified', type: 'datetime', group: 'audit', readOnly: true, nullable: true }
+];
+
+// Keys the panel edits elsewhere or never shows
+const HIDDEN_KEYS = ['id', 'project_id', 'logical_module_id', 'page_id', 'position', 'execute_config', 'version'];
+
+/**
+ * Declarative description of the workflowProcess fields the property panel
+ * edits: how each is typed, grouped and validated. Keys a row carries that
+ * the schema does not know about are shown as plain text under "Other".
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WorkflowfieldschemaService {
+
+  getField(key: string): WorkflowFieldSchema {
+    return WORKFLOW_FIELDS.find((field: WorkflowFieldSchema) => field.key === key) ||
+      { key, label: key.replace(/_/g, ' '), type: 'text', group: 'other', nullable: true };
+  }
+
+  /** The groups to render for a property set, in schema order, skipping empty ones */
+  getGroups(properties: WorkflowProperties): WorkflowFieldGroup[] {
+    const keys = Object.keys(properties).filter((key: string) => !HIDDEN_KEYS.includes(key));
+    const fields = [
+      ...WORKFLOW_FIELDS.filter((field: WorkflowFieldSchema) => keys.includes(field.key)),
+      ...keys
+        .filter((key: string) => !WORKFLOW_FIELDS.some((field: WorkflowFieldSchema) => field.key === key))
+        .map((key: string) => this.getField(key))
+    ];
+
+    return (Object.keys(GROUP_LABELS) as WorkflowFieldGroupId[])
+      .map((id: WorkflowFieldGroupId) => ({
+        id,
+        label: GROUP_LABELS[id],
+        fields: fields.filter((field: WorkflowFieldSchema) => field.group === id)
+      }))
+      .filter((group: WorkflowFieldGroup) => group.fields.length > 0);
+  }
+
+  // Converts an input's text into the value stored on the row
+  parse(field: WorkflowFieldSchema, raw: string): any {
+    const text = raw.trim();
+
+    if (field.type === 'integer' || field.type === 'lookup') {
+      if (text === '') return null;
+      const value = Number(text);
+      return Number.isInteger(value) ? value : raw;
+    }
+
+    if (text === '' && field.nullable) return null;
+
+    // datetime-local inputs give "YYYY-MM-DDTHH:MM[:SS]"; rows store "YYYY-MM-DD HH:MM:SS"
+    if (field.type === 'datetime') {
+      const [date, time = ''] = text.split('T');
+      return time.length === 5 ? `${date} ${time}:00` : `${date} ${time}`.trim();
+    }
+    return raw;
+  }
+
+  format(field: WorkflowFieldSchema, value: any): string {
+    if (value == null) return '';
+    return field.type === 'datetime' ? String(value).replace(' ', 'T') : String(value);
+  }
+
+  validateField(field: WorkflowFieldSchema, value: any): string | null {
+    if (field.readOnly) return null;
+
+    const empty = value == null || String(value).trim() === '';
+    if (empty) {
+      if (field.required) return `${field.label} is required.`;
+      if (!field.nullable && (field.type === 'integer' || field.type === 'lookup')) return `${field.label} is required.`;
+      return null;
+    }
+
+    if (field.type === 'integer' || field.type === 'lookup') {
+      if (!Number.isInteger(value)) return `${field.label} must be a whole number.`;
+      if (field.type === 'lookup' && value <= 0 && field.required) return `Choose a ${field.label.toLowerCase()}.`;
+      if (field.min != null && value < field.min) return `${field.label} must be at least ${field.min}.`;
+    }
+
+    if (field.maxLength != null && String(value).length > field.maxLength) {
+      return `${field.label} must be at most ${field.maxLength} characters.`;
+    }
+
+    return null;
+  }
+
+  validate(properties: WorkflowProperties): WorkflowFieldErrors {
+    const errors: WorkflowFieldErrors = {};
+    this.getGroups(properties).forEach((group: WorkflowFieldGroup) => {
+      group.fields.forEach((field: WorkflowFieldSchema) => {
+        const error = this.validateField(field, properties[field.key]);
+        if (error) errors[field.key] = error;
+      });
+    });
+    return errors;
+  }
+}
@@ -0,0 +1,85 @@
+import { TestBed } from '@angular/core/testing';
+
+import { WorkflowlayoutService } from './workflowlayout.service';
+import { ArrowData, DraggableItem } from './workflowservice.service';
+
+describe('WorkflowlayoutService', () => {
+  let service: WorkflowlayoutService;
+
+  const step = (id: number, type: DraggableItem['type'], sequence?: number): DraggableItem => ({
+    id,
+    label: `Step ${id}`,
+    type,
+    position: { x: 0, y: 0 },
+    properties: { position: { x: 0, y: 0 }, sequence }
+  });
+
+  // Submit -> Approve (Action 2) -> Continue -> Verify, with Reject branching off Approve
+  const items: DraggableItem[] = [
+    step(1, 'action1', 1),
+    step(2, 'action2', 2),
+    step(3, 'continue'),
+    step(4, 'reject'),
+    step(5, 'action1', 3)
+  ];
+  const arrows: ArrowData[] = [
+    { fromId: 1, toId: 2 },
+    { fromId: 2, toId: 3 },
+    { fromId: 2, toId: 4 },
+    { fromId: 3, toId: 5 }
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(WorkflowlayoutService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should lay the main flow out in one straight row from left to right', () => {
+    const positions = service.layout(items, arrows, { direction: 'LR' });
+
+    expect(positions.get(1)).toEqual({ x: 120, y: 120 });
+    expect(positions.get(2)).toEqual({ x: 360, y: 120 });
+    expect(positions.get(3)).toEqual({ x: 600, y: 120 });
+    expect(positions.get(5)).toEqual({ x: 840, y: 120 });
+  });
+
+  it('should move the reject branch clear of the main flow', () => {
+    const positions = service.layout(items, arrows, { direction: 'LR' });
+
+    expect(positions.get(4)!.x).toBe(positions.get(3)!.x);
+    expect(positions.get(4)!.y).toBeGreaterThanOrEqual(positions.get(3)!.y + 64);
+  });
+
+  it('should stack layers from top to bottom', () => {
+    const positions = service.layout(items, arrows, { direction: 'TB', origin: { x: 0, y: 0 } });
+
+    expect(positions.get(1)).toEqual({ x: 0, y: 0 });
+    expect(positions.get(2)).toEqual({ x: 0, y: 144 });
+    expect(positions.get(4)!.x).toBeGreaterThan(positions.get(3)!.x);
+  });
+
+  it('should reorder a layer to remove crossings', () => {
+    const crossing = [step(1, 'action1', 1), step(2, 'action1', 2), step(3, 'action1', 3), step(4, 'action1', 4)];
+    // Depth-first order puts 3 above 4, which crosses 1 -> 4 with 2 -> 3
+    const positions = service.layout(crossing, [
+      { fromId: 1, toId: 3 },
+      { fromId: 1, toId: 4 },
+      { fromId: 2, toId: 3 }
+    ], { direction: 'LR' });
+
+    expect(positions.get(4)!.y).toBeLessThan(positions.get(3)!.y);
+  });
+
+  it('should place every node of a cycle', () => {
+    const positions = service.layout(items.slice(0, 2), [
+      { fromId: 1, toId: 2 },
+      { fromId: 2, toId: 1 }
+    ], { direction: 'LR' });
+
+    expect(positions.get(1)!.x).toBeLessThan(positions.get(2)!.x);
+  });
+});
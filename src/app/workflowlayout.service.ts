@@ -0,0 +1,309 @@
+import { Injectable } from '@angular/core';
+import { ArrowData, DraggableItem, Position } from './workflowservice.service';
+
+export type LayoutDirection = 'LR' | 'TB';
+
+export interface LayoutOptions {
+  direction: LayoutDirection;
+  origin?: Position;
+}
+
+interface LayoutNode {
+  // Item id, or a negative id for the placeholders that route long edges
+  id: number;
+  item: DraggableItem | null;
+  layer: number;
+  preds: LayoutNode[];
+  succs: LayoutNode[];
+  cross: number;
+}
+
+interface LayoutEdge {
+  from: number;
+  to: number;
+}
+
+const BRANCH_ORDER: Record<DraggableItem['type'], number> = {
+  continue: 0,
+  reject: 1,
+  action1: 2,
+  action2: 2
+};
+
+/**
+ * Layered (Sugiyama-style) layout for the workflow canvas: break cycles,
+ * assign layers by longest path, order each layer to cut crossings, then
+ * place nodes so that every step lines up with the branch it came from.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WorkflowlayoutService {
+
+  private readonly NODE_WIDTH = 140;
+  private readonly NODE_HEIGHT = 64;
+  private readonly LAYER_GAP = { LR: 100, TB: 80 };
+  // Nodes carry a caption underneath, so rows need more room than columns
+  private readonly NODE_GAP = { LR: 70, TB: 60 };
+  private readonly ORDERING_SWEEPS = 12;
+  private readonly DEFAULT_ORIGIN: Position = { x: 120, y: 120 };
+
+  /** Returns the new top-left position of every item, keyed by item id. */
+  layout(items: DraggableItem[], arrows: ArrowData[], options: LayoutOptions): Map<number, Position> {
+    const positions = new Map<number, Position>();
+    if (items.length === 0) return positions;
+
+    const visitOrder = this.getVisitOrder(items, arrows);
+    const edges = this.getAcyclicEdges(visitOrder, arrows);
+    const layers = this.buildLayers(visitOrder, edges);
+
+    this.orderLayers(layers);
+    this.assignCross(layers, options.direction);
+
+    const origin = options.origin || this.DEFAULT_ORIGIN;
+    const lr = options.direction === 'LR';
+    const mainStride = (lr ? this.NODE_WIDTH : this.NODE_HEIGHT) + this.LAYER_GAP[options.direction];
+    const crossSize = lr ? this.NODE_HEIGHT : this.NODE_WIDTH;
+
+    const realNodes = layers.flat().filter((node: LayoutNode) => !!node.item);
+    const minCross = Math.min(...realNodes.map((node: LayoutNode) => node.cross - crossSize / 2));
+
+    for (const node of realNodes) {
+      const main = node.layer * mainStride;
+      const cross = Math.round(node.cross - crossSize / 2 - minCross);
+      positions.set(node.id, lr
+        ? { x: origin.x + main, y: origin.y + cross }
+        : { x: origin.x + cross, y: origin.y + main });
+    }
+
+    return positions;
+  }
+
+  /**
+   * Depth-first order from the start steps. Continue is visited before
+   * Reject so the main flow keeps the first slot in every layer.
+   */
+  private getVisitOrder(items: DraggableItem[], arrows: ArrowData[]): DraggableItem[] {
+    const byId = new Map(items.map((item: DraggableItem) => [item.id, item] as [number, DraggableItem]));
+    const hasIncoming = new Set(arrows.filter((arrow: ArrowData) => byId.has(arrow.fromId)).map((arrow: ArrowData) => arrow.toId));
+    // Steps nothing points at come first; in a closed loop the lowest sequence starts
+    const roots = [...items].sort((a: DraggableItem, b: DraggableItem) =>
+      Number(hasIncoming.has(a.id)) - Number(hasIncoming.has(b.id)) ||
+      this.getSequence(a) - this.getSequence(b) ||
+      a.id - b.id
+    );
+
+    const visited = new Set<number>();
+    const order: DraggableItem[] = [];
+    const visit = (item: DraggableItem) => {
+      if (visited.has(item.id)) return;
+      visited.add(item.id);
+      order.push(item);
+      this.getTargets(item.id, arrows, byId).forEach(visit);
+    };
+    roots.forEach(visit);
+
+    return order;
+  }
+
+  private getTargets(id: number, arrows: ArrowData[], byId: Map<number, DraggableItem>): DraggableItem[] {
+    return arrows
+      .filter((arrow: ArrowData) => arrow.fromId === id && arrow.toId !== id)
+      .map((arrow: ArrowData) => byId.get(arrow.toId))
+      .filter((item: DraggableItem | undefined): item is DraggableItem => !!item)
+      .sort((a: DraggableItem, b: DraggableItem) => this.compareItems(a, b));
+  }
+
+  private compareItems(a: DraggableItem, b: DraggableItem): number {
+    return BRANCH_ORDER[a.type] - BRANCH_ORDER[b.type] || this.getSequence(a) - this.getSequence(b) || a.id - b.id;
+  }
+
+  private getSequence(item: DraggableItem): number {
+    return item.properties?.sequence ?? Number.MAX_SAFE_INTEGER;
+  }
+
+  /** Drops duplicates and self-loops and reverses the edges that close a cycle. */
+  private getAcyclicEdges(visitOrder: DraggableItem[], arrows: ArrowData[]): LayoutEdge[] {
+    const ids = new Set(visitOrder.map((item: DraggableItem) => item.id));
+    const state = new Map<number, 'active' | 'done'>();
+    const edges: LayoutEdge[] = [];
+    const seen = new Set<string>();
+
+    const addEdge = (from: number, to: number) => {
+      const key = `${from}>${to}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      edges.push({ from, to });
+    };
+
+    const visit = (id: number) => {
+      state.set(id, 'active');
+      for (const arrow of arrows) {
+        if (arrow.fromId !== id || arrow.toId === id || !ids.has(arrow.toId)) continue;
+
+        const targetState = state.get(arrow.toId);
+        if (targetState === 'active') {
+          addEdge(arrow.toId, id);
+        } else {
+          addEdge(id, arrow.toId);
+          if (!targetState) visit(arrow.toId);
+        }
+      }
+      state.set(id, 'done');
+    };
+
+    visitOrder.forEach((item: DraggableItem) => {
+      if (!state.has(item.id)) visit(item.id);
+    });
+
+    return edges;
+  }
+
+  /** Longest-path layering; edges spanning several layers get placeholder nodes. */
+  private buildLayers(visitOrder: DraggableItem[], edges: LayoutEdge[]): LayoutNode[][] {
+    const nodes = new Map<number, LayoutNode>();
+    visitOrder.forEach((item: DraggableItem) => {
+      nodes.set(item.id, { id: item.id, item, layer: 0, preds: [], succs: [], cross: 0 });
+    });
+
+    // The edges are acyclic now, so relaxing them until nothing moves ends
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const edge of edges) {
+        const from = nodes.get(edge.from)!;
+        const to = nodes.get(edge.to)!;
+        if (to.layer < from.layer + 1) {
+          to.layer = from.layer + 1;
+          changed = true;
+        }
+      }
+    }
+
+    const layers: LayoutNode[][] = [];
+    const place = (node: LayoutNode) => {
+      (layers[node.layer] = layers[node.layer] || []).push(node);
+    };
+    visitOrder.forEach((item: DraggableItem) => place(nodes.get(item.id)!));
+
+    let nextDummyId = -1;
+    for (const edge of edges) {
+      let from = nodes.get(edge.from)!;
+      const to = nodes.get(edge.to)!;
+
+      for (let layer = from.layer + 1; layer < to.layer; layer++) {
+        const dummy: LayoutNode = { id: nextDummyId--, item: null, layer, preds: [from], succs: [], cross: 0 };
+        from.succs.push(dummy);
+        place(dummy);
+        from = dummy;
+      }
+      from.succs.push(to);
+      to.preds.push(from);
+    }
+
+    return layers.map((layer: LayoutNode[] | undefined) => layer || []);
+  }
+
+  /** Barycenter sweeps, alternating down and up, keeping the ordering with fewest crossings. */
+  private orderLayers(layers: LayoutNode[][]): void {
+    let best = layers.map((layer: LayoutNode[]) => [...layer]);
+    let bestCrossings = this.countCrossings(layers);
+
+    for (let sweep = 0; sweep < this.ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+      const down = sweep % 2 === 0;
+      const indices = layers.map((_: LayoutNode[], index: number) => index);
+      const range = down ? indices.slice(1) : indices.slice(0, -1).reverse();
+
+      for (const index of range) {
+        const fixed = layers[down ? index - 1 : index + 1];
+        const positionOf = new Map(fixed.map((node: LayoutNode, position: number) => [node, position] as [LayoutNode, number]));
+
+        const weights = new Map(layers[index].map((node: LayoutNode, position: number) => {
+          const neighbours = (down ? node.preds : node.succs).filter((neighbour: LayoutNode) => positionOf.has(neighbour));
+          const weight = neighbours.length > 0
+            ? neighbours.reduce((sum: number, neighbour: LayoutNode) => sum + positionOf.get(neighbour)!, 0) / neighbours.length
+            : position;
+          return [node, weight] as [LayoutNode, number];
+        }));
+
+        // Array.sort is stable, so ties keep Continue ahead of Reject
+        layers[index].sort((a: LayoutNode, b: LayoutNode) => weights.get(a)! - weights.get(b)!);
+      }
+
+      const crossings = this.countCrossings(layers);
+      if (crossings < bestCrossings) {
+        bestCrossings = crossings;
+        best = layers.map((layer: LayoutNode[]) => [...layer]);
+      }
+    }
+
+    best.forEach((layer: LayoutNode[], index: number) => layers[index] = layer);
+  }
+
+  private countCrossings(layers: LayoutNode[][]): number {
+    let crossings = 0;
+
+    for (let index = 0; index < layers.length - 1; index++) {
+      const lowerPosition = new Map(layers[index + 1].map((node: LayoutNode, position: number) => [node, position] as [LayoutNode, number]));
+      const segments: [number, number][] = [];
+      layers[index].forEach((node: LayoutNode, position: number) => {
+        node.succs.forEach((succ: LayoutNode) => segments.push([position, lowerPosition.get(succ)!]));
+      });
+
+      for (let i = 0; i < segments.length; i++) {
+        for (let j = i + 1; j < segments.length; j++) {
+          if ((segments[i][0] - segments[j][0]) * (segments[i][1] - segments[j][1]) < 0) {
+            crossings++;
+          }
+        }
+      }
+    }
+
+    return crossings;
+  }
+
+  /**
+   * Centres each node on its predecessors. The first successor of a node
+   * sits straight in line with it and later ones step aside, then a forward
+   * and a backward pass resolve overlaps; averaging both keeps the spacing.
+   */
+  private assignCross(layers: LayoutNode[][], direction: LayoutDirection): void {
+    const size = (node: LayoutNode) => node.item ? (direction === 'LR' ? this.NODE_HEIGHT : this.NODE_WIDTH) : 0;
+    const separation = (a: LayoutNode, b: LayoutNode) =>
+      (size(a) + size(b)) / 2 + (a.item && b.item ? this.NODE_GAP[direction] : this.NODE_GAP[direction] / 2);
+
+    layers.forEach((layer: LayoutNode[], layerIndex: number) => {
+      const upper = layerIndex > 0 ? layers[layerIndex - 1] : [];
+      const desired = layer.map((node: LayoutNode) => {
+        const preds = node.preds.filter((pred: LayoutNode) => upper.includes(pred));
+        if (preds.length === 0) return null;
+
+        const targets = preds.map((pred: LayoutNode) => {
+          const siblings = layer.filter((sibling: LayoutNode) => pred.succs.includes(sibling));
+          let offset = 0;
+          for (let i = 1; i <= siblings.indexOf(node); i++) {
+            offset += separation(siblings[i - 1], siblings[i]);
+          }
+          return pred.cross + offset;
+        });
+        return targets.reduce((sum: number, target: number) => sum + target, 0) / targets.length;
+      });
+
+      const forward: number[] = [];
+      layer.forEach((node: LayoutNode, i: number) => {
+        const minimum = i > 0 ? forward[i - 1] + separation(layer[i - 1], node) : -Infinity;
+        const wanted = desired[i];
+        forward.push(wanted === null ? (i > 0 ? minimum : 0) : Math.max(wanted, minimum));
+      });
+
+      const backward: number[] = [];
+      for (let i = layer.length - 1; i >= 0; i--) {
+        const maximum = i < layer.length - 1 ? backward[i + 1] - separation(layer[i], layer[i + 1]) : Infinity;
+        const wanted = desired[i] ?? forward[i];
+        backward[i] = Math.min(wanted, maximum);
+      }
+
+      layer.forEach((node: LayoutNode, i: number) => node.cross = (forward[i] + backward[i]) / 2);
+    });
+  }
+}
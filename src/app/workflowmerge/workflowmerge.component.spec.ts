@@ -0,0 +1,55 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { FormsModule } from '@angular/forms';
+
+import { WorkflowmergeComponent } from './workflowmerge.component';
+import { WorkflowProcessItem } from '../workflowservice.service';
+
+describe('WorkflowmergeComponent', () => {
+  let component: WorkflowmergeComponent;
+  let fixture: ComponentFixture<WorkflowmergeComponent>;
+
+  const base: WorkflowProcessItem = {
+    id: '4', project_id: 1, logical_module_id: 10, page_id: 80, sequence: 2, name: 'Verify',
+    input_property_value: 'Submitted', output_property_value: 'Verified', version: 3
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule, FormsModule],
+      declarations: [WorkflowmergeComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(WorkflowmergeComponent);
+    component = fixture.componentInstance;
+    // We renamed the step; they changed the output value and the name
+    component.request = {
+      base,
+      local: { ...base, name: 'Review', lastmodifieddate: '2026-02-01 10:00:00' },
+      server: { ...base, name: 'Check', output_property_value: 'Checked', version: 4 }
+    };
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should list only the fields the two sides disagree on', () => {
+    expect(component.fields.map(field => field.key)).toEqual(['name', 'output_property_value']);
+  });
+
+  it('should default to our value only for the fields we changed', () => {
+    expect(component.fields.map(field => field.choice)).toEqual(['local', 'server']);
+    expect(component.fields.map(field => field.conflicting)).toEqual([true, false]);
+  });
+
+  it('should merge onto the server row at its version', () => {
+    const merged = component.getMergedRow()!;
+
+    expect(merged.name).toBe('Review');
+    expect(merged['output_property_value']).toBe('Checked');
+    expect(merged.version).toBe(4);
+  });
+});
@@ -0,0 +1,77 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import {
+  WorkflowserviceService,
+  WorkflowLookups,
+  WorkflowProcessItem,
+  WorkflowMergeRequest,
+  WorkflowMergeField,
+  WorkflowMergeChoice
+} from '../workflowservice.service';
+import { WorkflowfieldschemaService, WorkflowFieldSchema } from '../workflowfieldschema.service';
+
+/**
+ * Shown when saving a step hit a newer version on the server that changed
+ * the same fields. Lists every field the two sides disagree on and lets the
+ * user pick a side per field; clashing fields are highlighted.
+ */
+@Component({
+  selector: 'app-workflowmerge',
+  templateUrl: './workflowmerge.component.html',
+  styleUrls: ['./workflowmerge.component.css']
+})
+export class WorkflowmergeComponent {
+
+  @Input() lookups: WorkflowLookups = { propertyNames: [], workflowActions: [], accessLevels: [] };
+  @Output() resolved = new EventEmitter<WorkflowProcessItem>();
+
+  fields: WorkflowMergeField[] = [];
+  private current: WorkflowMergeRequest | null = null;
+
+  constructor(
+    private workflowService: WorkflowserviceService,
+    private fieldSchema: WorkflowfieldschemaService
+  ) { }
+
+  @Input() set request(request: WorkflowMergeRequest | null) {
+    this.current = request;
+    this.fields = request ? this.workflowService.getMergeFields(request) : [];
+  }
+
+  get request(): WorkflowMergeRequest | null {
+    return this.current;
+  }
+
+  getStepName(): string {
+    return this.current ? this.current.server.name || this.current.base.name : '';
+  }
+
+  chooseAll(choice: WorkflowMergeChoice): void {
+    this.fields.forEach((field: WorkflowMergeField) => field.choice = choice);
+  }
+
+  getMergedRow(): WorkflowProcessItem | null {
+    return this.current ? this.workflowService.mergeWorkflowRows(this.current.server, this.fields) : null;
+  }
+
+  apply(): void {
+    const merged = this.getMergedRow();
+    if (merged) {
+      this.resolved.emit(merged);
+    }
+  }
+
+  getLabel(field: WorkflowMergeField): string {
+    return field.key === 'position' ? 'Position' : this.fieldSchema.getField(field.key).label;
+  }
+
+  formatValue(field: WorkflowMergeField, value: any): string {
+    if (value == null || value === '') return '—';
+    if (field.key === 'position') return `${value.x}, ${value.y}`;
+
+    const schema: WorkflowFieldSchema = this.fieldSchema.getField(field.key);
+    if (schema.lookup) {
+      return this.workflowService.getLookupName(this.lookups[schema.lookup], value);
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
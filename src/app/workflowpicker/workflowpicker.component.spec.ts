@@ -0,0 +1,37 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { RouterTestingModule } from '@angular/router/testing';
+
+import { WorkflowpickerComponent } from './workflowpicker.component';
+
+describe('WorkflowpickerComponent', () => {
+  let component: WorkflowpickerComponent;
+  let fixture: ComponentFixture<WorkflowpickerComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule, RouterTestingModule],
+      declarations: [WorkflowpickerComponent]
+    })
+    .compileComponents();
+    
+    fixture = TestBed.createComponent(WorkflowpickerComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should build the workflow route for a page', () => {
+    const link = component.getWorkflowLink({
+      project_id: 1,
+      logical_module_id: 10,
+      page_id: 79,
+      stepCount: 2,
+      stepNames: ['Entry', 'Approval']
+    });
+    expect(link.join('/')).toBe('/projects/1/modules/10/pages/79/workflow');
+  });
+});
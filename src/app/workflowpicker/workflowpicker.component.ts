@@ -0,0 +1,50 @@
+import { Component, OnInit } from '@angular/core';
+import { WorkflowserviceService, WorkflowPageSummary } from '../workflowservice.service';
+import { NotificationService } from '../notification.service';
+
+@Component({
+  selector: 'app-workflowpicker',
+  templateUrl: './workflowpicker.component.html',
+  styleUrls: ['./workflowpicker.component.css']
+})
+export class WorkflowpickerComponent implements OnInit {
+
+  pages: WorkflowPageSummary[] = [];
+  loading = true;
+  loadFailed = false;
+
+  constructor(
+    private workflowService: WorkflowserviceService,
+    private notifications: NotificationService
+  ) { }
+
+  ngOnInit(): void {
+    this.loadPages();
+  }
+
+  loadPages(): void {
+    this.loading = true;
+    this.loadFailed = false;
+    this.workflowService.getWorkflowPages()
+      .subscribe({
+        next: (pages: WorkflowPageSummary[]) => {
+          this.pages = pages;
+          this.loading = false;
+        },
+        error: (error: any) => {
+          this.loading = false;
+          this.loadFailed = true;
+          this.notifications.error(error, () => this.loadPages());
+        }
+      });
+  }
+
+  getWorkflowLink(page: WorkflowPageSummary): (string | number)[] {
+    return [
+      '/projects', page.project_id,
+      'modules', page.logical_module_id,
+      'pages', page.page_id,
+      'workflow'
+    ];
+  }
+}
@@ -0,0 +1,49 @@
+import { Observable } from 'rxjs';
+import { SavedState, WorkflowLookup, WorkflowProcessItem } from './workflowservice.service';
+import { WorkflowLookupSource } from './workflowfieldschema.service';
+
+export interface WorkflowRepositoryData {
+  workflowProcess: WorkflowProcessItem[];
+  workflowState: SavedState[];
+  propertyNames: WorkflowLookup[];
+  workflowActions: WorkflowLookup[];
+  accessLevels: WorkflowLookup[];
+}
+
+/**
+ * Where the designer keeps workflow steps, canvas layouts and lookups.
+ * Implementations only store and fetch; versions, retries, the offline
+ * queue and page filtering stay in WorkflowserviceService. Failures carry an
+ * HTTP status (HttpErrorResponse or WorkflowRepositoryError) so every
+ * backend is reported the same way.
+ */
+export interface WorkflowRepository {
+  listSteps(): Observable<WorkflowProcessItem[]>;
+  getStep(id: string): Observable<WorkflowProcessItem>;
+  createStep(data: Partial<WorkflowProcessItem>): Observable<WorkflowProcessItem>;
+  // `expectedVersion` is the version `data` was based on; a backend that can compare refuses a stale write with 409
+  replaceStep(id: string, data: Partial<WorkflowProcessItem>, expectedVersion: number): Observable<WorkflowProcessItem>;
+  deleteStep(id: string): Observable<void>;
+  /** Resolves null for a page that has no saved layout yet. */
+  getCanvasState(id: string): Observable<SavedState | null>;
+  /** Creates or replaces the layout stored under `state.id`. */
+  saveCanvasState(state: SavedState): Observable<SavedState>;
+  deleteCanvasState(id: string): Observable<void>;
+  getLookup(source: WorkflowLookupSource): Observable<WorkflowLookup[]>;
+}
+
+export class WorkflowRepositoryError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'WorkflowRepositoryError';
+  }
+}
+
+// json-server style ids: strings holding the next free integer
+export function nextStepId(rows: WorkflowProcessItem[]): string {
+  const max = rows.reduce((highest: number, row: WorkflowProcessItem) => {
+    const id = Number(row.id);
+    return isNaN(id) ? highest : Math.max(highest, id);
+  }, 0);
+  return String(max + 1);
+}
@@ -1,16 +1,293 @@
-import { TestBed } from '@angular/core/testing';
+import { PLATFORM_ID } from '@angular/core';
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { Subject } from 'rxjs';
 
-import { WorkflowserviceService } from './workflowservice.service';
+import {
+  WorkflowserviceService,
+  WorkflowPageRef,
+  WorkflowProcessItem,
+  WorkflowLookups,
+  SavedState,
+  WorkflowConflictError,
+  WorkflowRequestError,
+  WORKFLOW_REPOSITORY
+} from './workflowservice.service';
+import { InMemoryWorkflowRepository } from './inmemoryworkflowrepository';
+import { OfflinequeueService } from './offlinequeue.service';
 
 describe('WorkflowserviceService', () => {
   let service: WorkflowserviceService;
+  let httpMock: HttpTestingController;
+
+  const page79: WorkflowPageRef = { project_id: 1, logical_module_id: 10, page_id: 79 };
+  const page80: WorkflowPageRef = { project_id: 1, logical_module_id: 10, page_id: 80 };
+
+  const row = (id: string, sequence: number, extra: Partial<WorkflowProcessItem> = {}): WorkflowProcessItem => ({
+    id,
+    project_id: 1,
+    logical_module_id: 10,
+    page_id: 80,
+    sequence,
+    name: `Step ${sequence}`,
+    return_input_property_value: null,
+    ...extra
+  });
 
   beforeEach(() => {
-    TestBed.configureTestingModule({});
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      // Keeps the offline queue in memory instead of IndexedDB
+      providers: [{ provide: PLATFORM_ID, useValue: 'server' }]
+    });
     service = TestBed.inject(WorkflowserviceService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
   });
 
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
+
+  it('should key canvas state by project, module and page', () => {
+    expect(service.getCanvasStateId(page79)).toBe('1-10-79');
+    expect(service.getCanvasStateId(page80)).not.toBe(service.getCanvasStateId(page79));
+  });
+
+  it('should delete only the canvas state of the given page', () => {
+    service.deleteCanvasState(page79).subscribe();
+
+    const req = httpMock.expectOne('http://localhost:3000/workflowState/1-10-79');
+    expect(req.request.method).toBe('DELETE');
+    req.flush({});
+  });
+
+  it('should load the lookups sorted by name', () => {
+    let lookups: WorkflowLookups | undefined;
+    service.getLookups().subscribe((result: WorkflowLookups) => lookups = result);
+
+    httpMock.expectOne('http://localhost:3000/propertyNames').flush([{ id: 410, name: 'Status' }]);
+    httpMock.expectOne('http://localhost:3000/workflowActions').flush([{ id: 2, name: 'Submit' }, { id: 1, name: 'Approve' }]);
+    httpMock.expectOne('http://localhost:3000/accessLevels').flush(null, { status: 500, statusText: 'Server Error' });
+
+    expect(lookups?.workflowActions.map(a => a.name)).toEqual(['Approve', 'Submit']);
+    expect(lookups?.accessLevels).toEqual([]);
+    expect(service.getLookupName(lookups!.workflowActions, 1)).toBe('Approve');
+    expect(service.getLookupName(lookups!.workflowActions, 9)).toBe('#9');
+  });
+
+  describe('errors', () => {
+    it('should resolve a page without a saved layout to null', () => {
+      let state: SavedState | null | undefined;
+      service.getCanvasState(page80).subscribe((result: SavedState | null) => state = result);
+
+      httpMock.expectOne('http://localhost:3000/workflowState/1-10-80').flush({}, { status: 404, statusText: 'Not Found' });
+
+      expect(state).toBeNull();
+    });
+
+    it('should retry a dropped connection with backoff before failing', fakeAsync(() => {
+      let failure: WorkflowRequestError | undefined;
+      service.getWorkflowPages().subscribe({ error: (error: WorkflowRequestError) => failure = error });
+
+      [500, 1000, 2000].forEach((delay: number) => {
+        httpMock.expectOne('http://localhost:3000/workflowProcess').error(new ProgressEvent('error'));
+        tick(delay);
+      });
+      httpMock.expectOne('http://localhost:3000/workflowProcess').error(new ProgressEvent('error'));
+
+      expect(failure?.kind).toBe('network');
+      expect(failure?.retryable).toBeTrue();
+    }));
+
+    it('should not retry data the server rejected', () => {
+      let failure: WorkflowRequestError | undefined;
+      service.createWorkflowProcess(row('9', 4)).subscribe({ error: (error: WorkflowRequestError) => failure = error });
+
+      httpMock.expectOne('http://localhost:3000/workflowProcess')
+        .flush({ error: 'sequence is taken' }, { status: 422, statusText: 'Unprocessable Entity' });
+
+      expect(failure?.kind).toBe('validation');
+      expect(failure?.message).toBe('Could not create step "Step 4": sequence is taken');
+    });
+  });
+
+  describe('offline queue', () => {
+    it('should queue writes while the server is unreachable and replay them in order', () => {
+      let created: WorkflowProcessItem | undefined;
+      service.createWorkflowProcess(row('', 4)).subscribe((result: WorkflowProcessItem) => created = result);
+      // Creates are not retried, so the first dropped connection queues it
+      httpMock.expectOne('http://localhost:3000/workflowProcess').error(new ProgressEvent('error'));
+
+      // Queued behind the create without trying the server
+      service.updateWorkflowProcess(created!.id, { ...created!, name: 'Renamed' }).subscribe();
+      httpMock.expectNone(() => true);
+
+      let done = false;
+      service.replayOfflineQueue().subscribe(() => done = true);
+
+      const post = httpMock.expectOne((req) => req.method === 'POST');
+      post.flush({ ...post.request.body, id: '12' });
+      httpMock.expectOne('http://localhost:3000/workflowProcess/12').flush({ ...post.request.body, id: '12' });
+      const put = httpMock.expectOne((req) => req.method === 'PUT');
+      expect(put.request.body).toEqual(jasmine.objectContaining({ id: '12', name: 'Renamed', version: 2 }));
+      put.flush(put.request.body);
+
+      expect(done).toBeTrue();
+    });
+
+    it('should queue a write behind entries restored from an earlier session', () => {
+      const offlineQueue = TestBed.inject(OfflinequeueService);
+      const restored = new Subject<void>();
+      spyOn(offlineQueue, 'whenRestored').and.returnValue(restored);
+
+      service.deleteCanvasState(page79).subscribe();
+      httpMock.expectNone(() => true);
+
+      // IndexedDB answers with what the last session could not send
+      offlineQueue.add({ kind: 'delete', id: '7' });
+      restored.next();
+
+      httpMock.expectNone(() => true);
+      expect(offlineQueue.size).toBe(2);
+    });
+  });
+
+  describe('with an in-memory repository', () => {
+    let repository: InMemoryWorkflowRepository;
+
+    beforeEach(() => {
+      repository = new InMemoryWorkflowRepository({ workflowProcess: [row('4', 2, { version: 3 })] });
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        imports: [HttpClientTestingModule],
+        providers: [
+          { provide: PLATFORM_ID, useValue: 'server' },
+          { provide: WORKFLOW_REPOSITORY, useValue: repository }
+        ]
+      });
+      service = TestBed.inject(WorkflowserviceService);
+      httpMock = TestBed.inject(HttpTestingController);
+    });
+
+    it('should save through the provided repository', () => {
+      let saved: WorkflowProcessItem | undefined;
+      service.updateWorkflowProcess('4', row('4', 2, { version: 3, name: 'Check' }))
+        .subscribe((result: WorkflowProcessItem) => saved = result);
+
+      expect(saved?.version).toBe(4);
+      repository.getStep('4').subscribe((result: WorkflowProcessItem) => expect(result.name).toBe('Check'));
+    });
+
+    it('should resolve false when deleting a step that is already gone', () => {
+      let deleted: boolean | undefined;
+      service.deleteWorkflowProcess('99').subscribe((result: boolean) => deleted = result);
+
+      expect(deleted).toBeFalse();
+    });
+  });
+
+  describe('updateWorkflowProcess', () => {
+    it('should write the next version when the row has not moved on', () => {
+      let saved: WorkflowProcessItem | null = null;
+      service.updateWorkflowProcess('4', row('4', 2, { version: 3, name: 'Review' }))
+        .subscribe((result: WorkflowProcessItem | null) => saved = result);
+
+      httpMock.expectOne('http://localhost:3000/workflowProcess/4').flush(row('4', 2, { version: 3 }));
+      const put = httpMock.expectOne((req) => req.method === 'PUT');
+      expect(put.request.headers.get('If-Match')).toBe('"3"');
+      expect(put.request.body.version).toBe(4);
+      put.flush(put.request.body);
+
+      expect(saved!.version).toBe(4);
+    });
+
+    it('should fail with both rows when someone else saved first', () => {
+      let conflict: WorkflowConflictError | undefined;
+      service.updateWorkflowProcess('4', row('4', 2, { version: 3, name: 'Review' }))
+        .subscribe({ error: (error: WorkflowConflictError) => conflict = error });
+
+      httpMock.expectOne('http://localhost:3000/workflowProcess/4').flush(row('4', 2, { version: 5, name: 'Check' }));
+
+      expect(conflict instanceof WorkflowConflictError).toBeTrue();
+      expect(conflict!.local.name).toBe('Review');
+      expect(conflict!.server.name).toBe('Check');
+    });
+
+    it('should only ask about fields both sides changed', () => {
+      const base = row('4', 2, { version: 3, output_property_value: 'Verified' });
+      const fields = service.getMergeFields({
+        base,
+        local: { ...base, name: 'Review', output_property_value: 'Approved' },
+        server: { ...base, name: 'Check', version: 4 }
+      });
+
+      expect(fields.map(field => [field.key, field.choice, field.conflicting])).toEqual([
+        ['name', 'local', true],
+        ['output_property_value', 'local', false]
+      ]);
+    });
+  });
+
+  describe('reconcileCanvasState', () => {
+    it('should build a connected canvas when there is no saved state', () => {
+      const state = service.reconcileCanvasState(null, [
+        row('3', 1),
+        row('4', 2, { return_input_property_value: 'Resubmitted' }),
+        row('5', 3)
+      ]);
+
+      expect(state.items.map(i => i.type)).toEqual(['action1', 'action2', 'continue', 'reject', 'action1']);
+      expect(state.arrows).toContain({ fromId: 1, toId: 2 });
+      expect(state.arrows).toContain({ fromId: 3, toId: 5 });
+      expect(state.nextId).toBe(6);
+    });
+
+    it('should keep user layout and arrows of unchanged rows', () => {
+      const rows = [row('3', 1), row('4', 2, { return_input_property_value: 'Resubmitted' })];
+      const saved: SavedState = service.reconcileCanvasState(null, rows);
+      const reject = saved.items.find(i => i.type === 'reject')!;
+      reject.position = { x: 900, y: 900 };
+      saved.arrows.push({ fromId: reject.id, toId: 1 });
+
+      const state = service.reconcileCanvasState(saved, rows);
+
+      expect(state.items.find(i => i.id === reject.id)!.position).toEqual({ x: 900, y: 900 });
+      expect(state.arrows).toContain({ fromId: reject.id, toId: 1 });
+    });
+
+    it('should remove nodes of deleted rows with their branches and arrows', () => {
+      const saved = service.reconcileCanvasState(null, [
+        row('3', 1),
+        row('4', 2, { return_input_property_value: 'Resubmitted' })
+      ]);
+
+      const state = service.reconcileCanvasState(saved, [row('3', 1)]);
+
+      expect(state.items.length).toBe(1);
+      expect(state.arrows.length).toBe(0);
+    });
+
+    it('should update changed properties in place', () => {
+      const saved = service.reconcileCanvasState(null, [row('3', 1)]);
+
+      const state = service.reconcileCanvasState(saved, [row('3', 1, { name: 'Entry', execute: 'email' })]);
+
+      expect(state.items[0].label).toBe('Entry');
+      expect(state.items[0].properties?.execute).toBe('email');
+      expect(state.items[0].position).toEqual(saved.items[0].position);
+    });
+
+    it('should carry the canvas preferences over', () => {
+      const saved = service.reconcileCanvasState(null, [row('3', 1)]);
+      saved.preferences = { showGrid: true, snapToGrid: true, gridSize: 40 };
+
+      const state = service.reconcileCanvasState(saved, [row('3', 1), row('5', 2)]);
+
+      expect(state.preferences).toEqual({ showGrid: true, snapToGrid: true, gridSize: 40 });
+    });
+  });
 });
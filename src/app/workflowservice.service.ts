@@ -1,7 +1,15 @@
-import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable, of } from 'rxjs';
-import { catchError, map, switchMap } from 'rxjs/operators';
+import { Inject, Injectable, InjectionToken, inject } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { MonoTypeOperatorFunction, Observable, forkJoin, of, throwError, timer } from 'rxjs';
+import { catchError, map, retry, switchMap, tap } from 'rxjs/operators';
+import { ExecuteConfig } from './executehandler.service';
+import { OfflineMutation, OfflinequeueService } from './offlinequeue.service';
+import { APP_CONFIG } from './app.config';
+import { WorkflowRepository, WorkflowRepositoryError } from './workflowrepository';
+import { JsonServerWorkflowRepository } from './jsonserverworkflowrepository';
+import { InMemoryWorkflowRepository } from './inmemoryworkflowrepository';
+import { LocalStorageWorkflowRepository } from './localstorageworkflowrepository';
+import { WorkflowLookupSource } from './workflowfieldschema.service';
 
 export interface Position {
   x: number;
@@ -24,6 +32,7 @@ export interface WorkflowProperties {
   output_property_reject_query_by?: string | null;
   output_property_onwards_query_by?: string | null;
   execute?: string;
+  execute_config?: ExecuteConfig | null;
   work_flow_access_level_id?: number;
   createdby?: number;
   createddate?: string;
@@ -41,11 +50,32 @@ export interface DraggableItem {
   workflowId?: string;
 }
 
+export interface ArrowData {
+  fromId: number;
+  toId: number;
+}
+
+export interface CanvasPreferences {
+  showGrid: boolean;
+  snapToGrid: boolean;
+  gridSize: number;
+}
+
+export const DEFAULT_CANVAS_PREFERENCES: CanvasPreferences = {
+  showGrid: false,
+  snapToGrid: false,
+  gridSize: 20
+};
+
 export interface SavedState {
   id?: number | string;
+  project_id?: number;
+  logical_module_id?: number;
+  page_id?: number;
   items: DraggableItem[];
-  arrows: { fromId: number; toId: number }[];
+  arrows: ArrowData[];
   nextId: number;
+  preferences?: CanvasPreferences;
 }
 
 export interface WorkflowProcessItem {
@@ -56,35 +86,169 @@ export interface WorkflowProcessItem {
   sequence: number;
   name: string;
   position?: Position;
+  // Bumped on every write; rows saved before versioning count as 0
+  version?: number;
   [key: string]: any;
 }
 
+export interface WorkflowPageRef {
+  project_id: number;
+  logical_module_id: number;
+  page_id: number;
+}
+
+export interface WorkflowPageSummary extends WorkflowPageRef {
+  stepCount: number;
+  stepNames: string[];
+}
+
+export interface WorkflowLookup {
+  id: number;
+  name: string;
+  description?: string;
+}
+
+export interface WorkflowLookups {
+  propertyNames: WorkflowLookup[];
+  workflowActions: WorkflowLookup[];
+  accessLevels: WorkflowLookup[];
+}
+
+export interface WorkflowMergeRequest {
+  // The row the local edit started from, used to tell which side changed a field
+  base: WorkflowProcessItem;
+  local: Partial<WorkflowProcessItem>;
+  server: WorkflowProcessItem;
+}
+
+export type WorkflowMergeChoice = 'local' | 'server';
+
+export interface WorkflowMergeField {
+  key: string;
+  local: any;
+  server: any;
+  choice: WorkflowMergeChoice;
+  // Both sides moved away from the base value, so someone has to pick
+  conflicting: boolean;
+}
+
+export type WorkflowErrorKind = 'not-found' | 'validation' | 'conflict' | 'network' | 'server';
+
+/**
+ * Every request the service makes fails with one of these. The message is
+ * written for the user ("Could not save the canvas: the server is unreachable").
+ */
+export class WorkflowRequestError extends Error {
+  constructor(public kind: WorkflowErrorKind, public action: string, public status = 0, reason?: string) {
+    super(`Could not ${action}: ${reason || WorkflowRequestError.describe(kind, status)}`);
+    this.name = 'WorkflowRequestError';
+  }
+
+  // Worth offering the user another try; the other kinds fail the same way again
+  get retryable(): boolean {
+    return this.kind === 'network' || this.kind === 'server';
+  }
+
+  static from(error: unknown, action: string): WorkflowRequestError {
+    if (error instanceof WorkflowRequestError) return error;
+    const status = WorkflowRequestError.statusOf(error);
+    if (status === null) {
+      return new WorkflowRequestError('server', action, 0, error instanceof Error ? error.message : undefined);
+    }
+
+    const reason = error instanceof HttpErrorResponse
+      ? (typeof error.error?.error === 'string' ? error.error.error : undefined)
+      : (error as WorkflowRepositoryError).message;
+    if (status === 0) return new WorkflowRequestError('network', action);
+    if (status === 404) return new WorkflowRequestError('not-found', action, 404);
+    if (status === 409 || status === 412) return new WorkflowRequestError('conflict', action, status, reason);
+    if (status === 400 || status === 422) return new WorkflowRequestError('validation', action, status, reason);
+    return new WorkflowRequestError('server', action, status, reason);
+  }
+
+  /** The HTTP status a repository failed with, or null for errors that carry none. */
+  static statusOf(error: unknown): number | null {
+    return error instanceof HttpErrorResponse || error instanceof WorkflowRepositoryError ? error.status : null;
+  }
+
+  private static describe(kind: WorkflowErrorKind, status: number): string {
+    switch (kind) {
+      case 'not-found': return 'it no longer exists';
+      case 'validation': return 'the server rejected the data';
+      case 'conflict': return 'someone else changed it first';
+      case 'network': return 'the server is unreachable';
+      case 'server': return status ? `the server failed (${status})` : 'something went wrong';
+    }
+  }
+}
+
+export interface OfflineReplayResult {
+  sent: number;
+  // Rows someone else saved while we were offline; their queued edit was not written
+  conflicts: WorkflowConflictError[];
+  failed: WorkflowRequestError[];
+  // False when the server dropped out again before the queue was empty
+  complete: boolean;
+}
+
+/**
+ * Raised when a workflowProcess row changed on the server after the version
+ * the update was based on. Carries both sides so the caller can merge them.
+ */
+export class WorkflowConflictError extends WorkflowRequestError {
+  constructor(public id: string, public local: Partial<WorkflowProcessItem>, public server: WorkflowProcessItem) {
+    super('conflict', `save step "${local.name || server.name}"`, 409);
+    this.name = 'WorkflowConflictError';
+  }
+}
+
+/**
+ * Where the service reads and writes. APP_CONFIG.storage picks one of the
+ * built-in repositories; an app embedding the designer can provide its own.
+ */
+export const WORKFLOW_REPOSITORY = new InjectionToken<WorkflowRepository>('WORKFLOW_REPOSITORY', {
+  providedIn: 'root',
+  factory: () => {
+    switch (inject(APP_CONFIG, { optional: true })?.storage) {
+      case 'memory': return new InMemoryWorkflowRepository();
+      case 'local-storage': return new LocalStorageWorkflowRepository();
+      default: return inject(JsonServerWorkflowRepository);
+    }
+  }
+});
+
 @Injectable({
   providedIn: 'root'
 })
 export class WorkflowserviceService {
 
-  private readonly JSON_SERVER_URL = 'http://localhost:3000';
-  private readonly WORKFLOW_STATE_ENDPOINT = `${this.JSON_SERVER_URL}/workflowState`;
-  private readonly WORKFLOW_PROCESS_ENDPOINT = `${this.JSON_SERVER_URL}/workflowProcess`;
-  private readonly CANVAS_STATE_ID = "1";
+  // Bookkeeping both sides of a merge always disagree on; the server's values win
+  private readonly MERGE_SKIPPED_KEYS = ['id', 'project_id', 'logical_module_id', 'page_id', 'version',
+    'createdby', 'createddate', 'lastmodifiedby', 'lastmodifieddate'];
 
+  // Dropped connections, timeouts and busy gateways usually pass; back off 0.5s, 1s, 2s
+  private readonly TRANSIENT_STATUSES = [0, 408, 429, 502, 503, 504];
+  private readonly RETRY_ATTEMPTS = 3;
+  private readonly RETRY_DELAY = 500;
 
   private readonly DEFAULT_START_X = 120;
   private readonly DEFAULT_START_Y = 120;
   private readonly DEFAULT_VERTICAL_SPACING = 150;
   private readonly DEFAULT_HORIZONTAL_SPACING = 200; // Spacing between items horizontally
+  private readonly BRANCH_OFFSET_X = 240; // Continue/Reject nodes sit to the right of their Action 2
+  private readonly BRANCH_OFFSET_Y = 70;
 
-  constructor(private http: HttpClient) { }
+  constructor(
+    @Inject(WORKFLOW_REPOSITORY) private repository: WorkflowRepository,
+    private offlineQueue: OfflinequeueService
+  ) { }
 
 
   getAllWorkflowProcess(): Observable<WorkflowProcessItem[]> {
-    return this.http.get<WorkflowProcessItem[]>(this.WORKFLOW_PROCESS_ENDPOINT)
+    return this.repository.listSteps()
       .pipe(
-        catchError((error: any) => {
-          console.error('Error loading workflow process data:', error);
-          return of([]);
-        })
+        this.retryTransient(),
+        this.failWith('load the workflow steps')
       );
   }
 
@@ -97,29 +261,149 @@ export class WorkflowserviceService {
   }
 
  
-  getWorkflowProcessById(id: string): Observable<WorkflowProcessItem | null> {
-    return this.http.get<WorkflowProcessItem>(`${this.WORKFLOW_PROCESS_ENDPOINT}/${id}`)
+  getWorkflowProcessByPage(page: WorkflowPageRef): Observable<WorkflowProcessItem[]> {
+    return this.getAllWorkflowProcess()
       .pipe(
-        catchError((error: any) => {
-          console.error(`Error loading workflow process item ${id}:`, error);
-          return of(null);
+        map((items: WorkflowProcessItem[]) => items.filter((item: WorkflowProcessItem) => this.isSamePage(item, page)))
+      );
+  }
+
+
+  getWorkflowPages(): Observable<WorkflowPageSummary[]> {
+    return this.getAllWorkflowProcess()
+      .pipe(
+        map((items: WorkflowProcessItem[]) => {
+          const pages: WorkflowPageSummary[] = [];
+
+          this.sortBySequence(items).forEach((item: WorkflowProcessItem) => {
+            let page = pages.find((p: WorkflowPageSummary) => this.isSamePage(item, p));
+            if (!page) {
+              page = {
+                project_id: item.project_id,
+                logical_module_id: item.logical_module_id,
+                page_id: item.page_id,
+                stepCount: 0,
+                stepNames: []
+              };
+              pages.push(page);
+            }
+            page.stepCount++;
+            page.stepNames.push(item.name);
+          });
+
+          return pages.sort((a: WorkflowPageSummary, b: WorkflowPageSummary) =>
+            a.project_id - b.project_id ||
+            a.logical_module_id - b.logical_module_id ||
+            a.page_id - b.page_id
+          );
         })
       );
   }
 
 
-  updateWorkflowProcess(id: string, data: Partial<WorkflowProcessItem>): Observable<WorkflowProcessItem | null> {
-    return this.http.put<WorkflowProcessItem>(`${this.WORKFLOW_PROCESS_ENDPOINT}/${id}`, data)
+  getPropertyNames(): Observable<WorkflowLookup[]> {
+    return this.getLookup('propertyNames', 'property names');
+  }
+
+
+  getWorkflowActions(): Observable<WorkflowLookup[]> {
+    return this.getLookup('workflowActions', 'workflow actions');
+  }
+
+
+  getAccessLevels(): Observable<WorkflowLookup[]> {
+    return this.getLookup('accessLevels', 'access levels');
+  }
+
+
+  getLookups(): Observable<WorkflowLookups> {
+    return forkJoin({
+      propertyNames: this.getPropertyNames(),
+      workflowActions: this.getWorkflowActions(),
+      accessLevels: this.getAccessLevels()
+    });
+  }
+
+
+  // "Approve" for a known id, "#7" for one the lookup does not have
+  getLookupName(lookup: WorkflowLookup[], id: number | null | undefined): string {
+    if (id == null) return '';
+    const entry = lookup.find((l: WorkflowLookup) => l.id === id);
+    return entry ? entry.name : `#${id}`;
+  }
+
+
+  // Lookups only decorate ids with names, so a failure falls back to "#7" rather than an error
+  private getLookup(source: WorkflowLookupSource, description: string): Observable<WorkflowLookup[]> {
+    return this.repository.getLookup(source)
       .pipe(
+        this.retryTransient(),
+        map((entries: WorkflowLookup[]) => [...entries].sort((a: WorkflowLookup, b: WorkflowLookup) => a.name.localeCompare(b.name))),
         catchError((error: any) => {
-          console.error(`Error updating workflow process item ${id}:`, error);
-          return of(null);
+          console.error(`Error loading ${description}:`, error);
+          return of([]);
         })
       );
   }
 
 
-  updateWorkflowPosition(id: string, position: Position, additionalData?: Partial<WorkflowProcessItem>): Observable<WorkflowProcessItem | null> {
+  isSamePage(a: WorkflowPageRef, b: WorkflowPageRef): boolean {
+    return a.project_id === b.project_id &&
+           a.logical_module_id === b.logical_module_id &&
+           a.page_id === b.page_id;
+  }
+
+ 
+  getWorkflowProcessById(id: string): Observable<WorkflowProcessItem> {
+    return this.repository.getStep(id)
+      .pipe(
+        this.retryTransient(),
+        this.failWith(`load workflow step ${id}`)
+      );
+  }
+
+
+  /**
+   * Writes `data` only if the row is still at `data.version`, and bumps the
+   * version. Not every repository can compare versions itself (json-server
+   * cannot), so the row is read first; one that can rejects the write too.
+   * A stale version fails with WorkflowConflictError.
+   */
+  updateWorkflowProcess(id: string, data: Partial<WorkflowProcessItem>): Observable<WorkflowProcessItem> {
+    return this.mutate({ kind: 'update', id, data }, () => this.sendUpdate(id, data),
+      () => ({ ...data, id, version: (data.version ?? 0) + 1 }) as WorkflowProcessItem);
+  }
+
+
+  private sendUpdate(id: string, data: Partial<WorkflowProcessItem>): Observable<WorkflowProcessItem> {
+    const expected = data.version ?? 0;
+    const action = `save step "${data.name || id}"`;
+
+    return this.repository.getStep(id)
+      .pipe(
+        this.retryTransient(),
+        switchMap((current: WorkflowProcessItem) => {
+          if ((current.version ?? 0) !== expected) {
+            return throwError(() => new WorkflowConflictError(id, data, current));
+          }
+          return this.repository.replaceStep(id, { ...data, version: expected + 1 }, expected)
+            .pipe(this.retryTransient());
+        }),
+        catchError((error: any) => {
+          const status = WorkflowRequestError.statusOf(error);
+          if (status === 409 || status === 412) {
+            return this.repository.getStep(id).pipe(
+              switchMap((current: WorkflowProcessItem) => throwError(() => new WorkflowConflictError(id, data, current)))
+            );
+          }
+          return throwError(() => error);
+        }),
+        this.failWith(action)
+      );
+  }
+
+
+  updateWorkflowPosition(id: string, position: Position, additionalData?: Partial<WorkflowProcessItem>): Observable<WorkflowProcessItem> {
     const updateData: any = {
       ...additionalData,
       position,
@@ -131,42 +415,89 @@ export class WorkflowserviceService {
   }
 
 
-  createWorkflowProcess(data: Partial<WorkflowProcessItem>): Observable<WorkflowProcessItem | null> {
-    return this.http.post<WorkflowProcessItem>(this.WORKFLOW_PROCESS_ENDPOINT, data)
+  /**
+   * The fields a stale update and the server row disagree on. Each defaults
+   * to whichever side changed it since the base.
+   */
+  getMergeFields(request: WorkflowMergeRequest): WorkflowMergeField[] {
+    const same = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+    return Object.keys(request.local)
+      .filter((key: string) => !this.MERGE_SKIPPED_KEYS.includes(key))
+      .filter((key: string) => !same(request.local[key], request.server[key]))
+      .map((key: string) => {
+        const localChanged = !same(request.local[key], request.base[key]);
+        return {
+          key,
+          local: request.local[key],
+          server: request.server[key],
+          choice: localChanged ? 'local' : 'server',
+          conflicting: localChanged && !same(request.server[key], request.base[key])
+        } as WorkflowMergeField;
+      });
+  }
+
+  /** The server row with the chosen values on top, still at the server's version. */
+  mergeWorkflowRows(server: WorkflowProcessItem, fields: WorkflowMergeField[]): WorkflowProcessItem {
+    const merged: WorkflowProcessItem = JSON.parse(JSON.stringify(server));
+    fields.forEach((field: WorkflowMergeField) => {
+      merged[field.key] = field.choice === 'local' ? field.local : field.server;
+    });
+    return merged;
+  }
+
+
+  // Not retried: a create that timed out may still have landed, and a retry would add the row twice
+  createWorkflowProcess(data: Partial<WorkflowProcessItem>): Observable<WorkflowProcessItem> {
+    const tempId = this.offlineQueue.createTempId();
+    return this.mutate({ kind: 'create', tempId, data }, () => this.sendCreate(data),
+      () => ({ ...data, id: tempId, version: 1 }) as WorkflowProcessItem);
+  }
+
+
+  private sendCreate(data: Partial<WorkflowProcessItem>): Observable<WorkflowProcessItem> {
+    return this.repository.createStep({ ...data, version: 1 })
       .pipe(
-        catchError((error: any) => {
-          console.error('Error creating workflow process item:', error);
-          return of(null);
-        })
+        this.failWith(`create step "${data.name || 'new step'}"`)
       );
   }
 
  
+  /** Resolves false when the row was already gone. */
   deleteWorkflowProcess(id: string): Observable<boolean> {
-    return this.http.delete(`${this.WORKFLOW_PROCESS_ENDPOINT}/${id}`)
+    return this.mutate({ kind: 'delete', id }, () => this.sendDelete(id), () => true);
+  }
+
+
+  private sendDelete(id: string): Observable<boolean> {
+    return this.repository.deleteStep(id)
       .pipe(
         map(() => true),
-        catchError((error: any) => {
-          console.error(`Error deleting workflow process item ${id}:`, error);
-          return of(false);
-        })
+        this.retryTransient(),
+        this.orFalseIfMissing(),
+        this.failWith(`delete workflow step ${id}`)
       );
   }
 
 
-  getCanvasState(): Observable<SavedState | null> {
-    return this.http.get<SavedState>(`${this.WORKFLOW_STATE_ENDPOINT}/${this.CANVAS_STATE_ID}`)
+  // Canvas layouts are stored one per page, keyed as "<project>-<module>-<page>"
+  getCanvasStateId(page: WorkflowPageRef): string {
+    return `${page.project_id}-${page.logical_module_id}-${page.page_id}`;
+  }
+
+
+  /** Resolves null for a page that has no saved layout yet. */
+  getCanvasState(page: WorkflowPageRef): Observable<SavedState | null> {
+    return this.repository.getCanvasState(this.getCanvasStateId(page))
       .pipe(
-        map((state: SavedState) => this.autoFixCanvasState(state)),
-        catchError((error: any) => {
-          console.log('No saved canvas state found');
-          return of(null);
-        })
+        this.retryTransient(),
+        map((state: SavedState | null) => state && this.autoFixCanvasState(page, state)),
+        this.failWith('load the canvas layout')
       );
   }
 
 
-  private autoFixCanvasState(state: SavedState): SavedState {
+  private autoFixCanvasState(page: WorkflowPageRef, state: SavedState): SavedState {
     if (!state || !state.items || state.items.length === 0) {
       return state;
     }
@@ -211,7 +542,7 @@ export class WorkflowserviceService {
       console.log('Auto-generated sequential arrows');
     } else {
 
-      const validArrows = fixedArrows.filter((arrow: { fromId: number; toId: number }) => {
+      const validArrows = fixedArrows.filter((arrow: ArrowData) => {
         const fromExists = fixedItems.some((item: DraggableItem) => item.id === arrow.fromId);
         const toExists = fixedItems.some((item: DraggableItem) => item.id === arrow.toId);
         return fromExists && toExists;
@@ -233,7 +564,7 @@ export class WorkflowserviceService {
 
     if (needsAutoFix) {
       console.log('Canvas state auto-fixed and will be saved');
-      this.saveCanvasState(fixedState).subscribe({
+      this.saveCanvasState(page, fixedState).subscribe({
         next: () => console.log('Auto-fixed canvas state saved'),
         error: (err: any) => console.error('Error saving auto-fixed state:', err)
       });
@@ -242,8 +573,8 @@ export class WorkflowserviceService {
     return fixedState;
   }
 
-  private generateSequentialArrows(items: DraggableItem[]): { fromId: number; toId: number }[] {
-    const arrows: { fromId: number; toId: number }[] = [];
+  private generateSequentialArrows(items: DraggableItem[]): ArrowData[] {
+    const arrows: ArrowData[] = [];
 
 
     const sortedItems = [...items].sort((a: DraggableItem, b: DraggableItem) => {
@@ -263,66 +594,368 @@ export class WorkflowserviceService {
     return arrows;
   }
 
-  saveCanvasState(state: SavedState): Observable<SavedState | null> {
-    const stateWithId = { ...state, id: this.CANVAS_STATE_ID };
+  saveCanvasState(page: WorkflowPageRef, state: SavedState): Observable<SavedState> {
+    const stateWithId: SavedState = {
+      ...state,
+      id: this.getCanvasStateId(page),
+      project_id: page.project_id,
+      logical_module_id: page.logical_module_id,
+      page_id: page.page_id
+    };
 
-    return this.getCanvasStateRaw().pipe(
-      switchMap((existingState: SavedState | null) => {
-        if (existingState) {
-          return this.updateCanvasState(stateWithId);
-        } else {
-          return this.createCanvasState(stateWithId);
-        }
-      }),
-      catchError((error: any) => {
-        console.error('Error saving canvas state:', error);
-        return of(null);
-      })
-    );
+    return this.mutate({ kind: 'save-canvas', page, state: stateWithId }, () => this.sendCanvasState(stateWithId),
+      () => stateWithId);
   }
 
 
-  private getCanvasStateRaw(): Observable<SavedState | null> {
-    return this.http.get<SavedState>(`${this.WORKFLOW_STATE_ENDPOINT}/${this.CANVAS_STATE_ID}`)
+  // Saving a layout is an upsert by page id, so unlike a create it is safe to retry
+  private sendCanvasState(stateWithId: SavedState): Observable<SavedState> {
+    return this.repository.saveCanvasState(stateWithId)
       .pipe(
-        catchError((error: any) => {
-          return of(null);
-        })
+        this.retryTransient(),
+        this.failWith('save the canvas layout')
       );
   }
 
 
-  private createCanvasState(state: SavedState): Observable<SavedState | null> {
-    return this.http.post<SavedState>(this.WORKFLOW_STATE_ENDPOINT, state)
+  /** Resolves false when the page had no saved layout. */
+  deleteCanvasState(page: WorkflowPageRef): Observable<boolean> {
+    return this.mutate({ kind: 'delete-canvas', page }, () => this.sendCanvasDelete(page), () => true);
+  }
+
+
+  private sendCanvasDelete(page: WorkflowPageRef): Observable<boolean> {
+    return this.repository.deleteCanvasState(this.getCanvasStateId(page))
       .pipe(
-        catchError((error: any) => {
-          console.error('Error creating canvas state:', error);
-          return of(null);
-        })
+        map(() => true),
+        this.retryTransient(),
+        this.orFalseIfMissing(),
+        this.failWith('clear the canvas layout')
       );
   }
 
 
-  private updateCanvasState(state: SavedState): Observable<SavedState | null> {
-    return this.http.put<SavedState>(`${this.WORKFLOW_STATE_ENDPOINT}/${this.CANVAS_STATE_ID}`, state)
-      .pipe(
+  /**
+   * Sends the writes queued while offline, oldest first, and stops at the
+   * first one the server still cannot be reached for. Updates carry the
+   * version they were based on, so rows someone else saved in the meantime
+   * come back as conflicts instead of being overwritten.
+   */
+  replayOfflineQueue(): Observable<OfflineReplayResult> {
+    const result: OfflineReplayResult = { sent: 0, conflicts: [], failed: [], complete: false };
+
+    const sendNext = (): Observable<OfflineReplayResult> => {
+      const mutation = this.offlineQueue.peek();
+      if (!mutation) {
+        result.complete = true;
+        return of(result);
+      }
+
+      return this.send(mutation).pipe(
+        map(() => {
+          result.sent++;
+          return true;
+        }),
         catchError((error: any) => {
-          console.error('Error updating canvas state:', error);
-          return of(null);
+          if (error instanceof WorkflowConflictError) {
+            result.conflicts.push(error);
+            return of(true);
+          }
+          if (error instanceof WorkflowRequestError && error.kind === 'network') {
+            return of(false);
+          }
+          // Anything else would fail the same way on every replay
+          result.failed.push(WorkflowRequestError.from(error, 'sync an offline change'));
+          return of(true);
+        }),
+        switchMap((done: boolean) => {
+          if (!done) return of(result);
+          this.offlineQueue.shift();
+          return sendNext();
         })
       );
+    };
+
+    return this.offlineQueue.whenRestored().pipe(switchMap(sendNext));
   }
 
 
-  deleteCanvasState(): Observable<boolean> {
-    return this.http.delete(`${this.WORKFLOW_STATE_ENDPOINT}/${this.CANVAS_STATE_ID}`)
-      .pipe(
-        map(() => true),
-        catchError((error: any) => {
-          console.log('No canvas state to delete');
-          return of(false);
-        })
+  private send(mutation: OfflineMutation): Observable<unknown> {
+    switch (mutation.kind) {
+      case 'create':
+        return this.sendCreate(mutation.data).pipe(
+          tap((row: WorkflowProcessItem) => this.offlineQueue.resolveTempId(mutation.tempId, row.id))
+        );
+      case 'update':
+        return this.sendUpdate(mutation.id, mutation.data);
+      case 'delete':
+        return this.sendDelete(mutation.id);
+      case 'save-canvas':
+        return this.sendCanvasState(mutation.state);
+      case 'delete-canvas':
+        return this.sendCanvasDelete(mutation.page);
+    }
+  }
+
+
+  /**
+   * Runs the write, or queues it when the server cannot be reached and
+   * answers with what the server would have. Once anything is queued, later
+   * writes queue behind it so that the server sees them in order; that
+   * includes entries still being read back from an earlier session.
+   */
+  private mutate<T>(mutation: OfflineMutation, request: () => Observable<T>, offlineResult: () => T): Observable<T> {
+    const enqueue = () => {
+      this.offlineQueue.add(mutation);
+      return of(offlineResult());
+    };
+
+    return this.offlineQueue.whenRestored().pipe(
+      switchMap(() => this.offlineQueue.hasPending()
+        ? enqueue()
+        : request().pipe(
+            catchError((error: any) =>
+              error instanceof WorkflowRequestError && error.kind === 'network' ? enqueue() : throwError(() => error)
+            )
+          )
+      )
+    );
+  }
+
+
+  private retryTransient<T>(): MonoTypeOperatorFunction<T> {
+    return retry<T>({
+      count: this.RETRY_ATTEMPTS,
+      delay: (error: any, attempt: number) =>
+        this.TRANSIENT_STATUSES.includes(WorkflowRequestError.statusOf(error) ?? -1)
+          ? timer(this.RETRY_DELAY * 2 ** (attempt - 1))
+          : throwError(() => error)
+    });
+  }
+
+
+  private failWith<T>(action: string): MonoTypeOperatorFunction<T> {
+    return catchError<T, Observable<never>>((error: any) => {
+      const failure = WorkflowRequestError.from(error, action);
+      console.error(failure.message, error);
+      return throwError(() => failure);
+    });
+  }
+
+
+  private orFalseIfMissing(): MonoTypeOperatorFunction<boolean> {
+    return catchError<boolean, Observable<boolean>>((error: any) =>
+      WorkflowRequestError.statusOf(error) === 404 ? of(false) : throwError(() => error)
+    );
+  }
+
+
+  /**
+   * Brings a saved canvas in line with the current workflowProcess rows without
+   * discarding the user's layout: nodes are added for new rows, removed for
+   * deleted rows and refreshed for changed rows, while positions and
+   * user-drawn arrows of untouched nodes are kept as they are.
+   */
+  reconcileCanvasState(state: SavedState | null, rows: WorkflowProcessItem[]): SavedState {
+    let items: DraggableItem[] = (state?.items || []).map((item: DraggableItem) => ({
+      ...item,
+      position: { ...item.position },
+      properties: item.properties ? { ...item.properties } : undefined
+    }));
+    let arrows: ArrowData[] = (state?.arrows || []).map((arrow: ArrowData) => ({ ...arrow }));
+    let nextId = Math.max(state?.nextId || 1, ...items.map((item: DraggableItem) => item.id + 1));
+
+    const rowIds = new Set(rows.map((row: WorkflowProcessItem) => row.id));
+
+    // Drop nodes whose rows were deleted, together with their Continue/Reject nodes
+    const removedIds = new Set<number>();
+    items.forEach((item: DraggableItem) => {
+      if (item.workflowId && !rowIds.has(item.workflowId)) {
+        removedIds.add(item.id);
+        this.getBranchNodes(item, items, arrows).forEach((branch: DraggableItem) => removedIds.add(branch.id));
+      }
+    });
+    items = items.filter((item: DraggableItem) => !removedIds.has(item.id));
+    arrows = arrows.filter((arrow: ArrowData) => !removedIds.has(arrow.fromId) && !removedIds.has(arrow.toId));
+
+    const sortedRows = this.sortBySequence(rows);
+
+    // Refresh nodes of existing rows first so that new rows are spliced in by current sequence
+    sortedRows.forEach((row: WorkflowProcessItem) => {
+      const type: 'action1' | 'action2' = this.hasReturnValue(row) ? 'action2' : 'action1';
+      const existing = items.find((item: DraggableItem) => item.workflowId === row.id);
+
+      if (existing) {
+        const branches = this.getBranchNodes(existing, items, arrows);
+
+        if (this.isUsablePosition(row.position) &&
+            (row.position!.x !== existing.position.x || row.position!.y !== existing.position.y)) {
+          const deltaX = row.position!.x - existing.position.x;
+          const deltaY = row.position!.y - existing.position.y;
+          existing.position = { x: row.position!.x, y: row.position!.y };
+          branches.forEach((branch: DraggableItem) => {
+            branch.position = { x: branch.position.x + deltaX, y: branch.position.y + deltaY };
+            branch.properties = { ...branch.properties, position: { ...branch.position } };
+          });
+        }
+
+        existing.label = row.name || `Action ${row.sequence}`;
+        existing.properties = this.createPropertiesFromWorkflow(row, existing.position);
+
+        if (existing.type !== type) {
+          existing.type = type;
+
+          if (type === 'action2') {
+            const newBranches = this.createBranchNodes(existing, nextId);
+            nextId += newBranches.length;
+            items.push(...newBranches);
+
+            // The flow now leaves through the Continue node
+            arrows.forEach((arrow: ArrowData) => {
+              if (arrow.fromId === existing.id) {
+                arrow.fromId = newBranches[0].id;
+              }
+            });
+            newBranches.forEach((branch: DraggableItem) => arrows.push({ fromId: existing.id, toId: branch.id }));
+          } else {
+            const branchIds = new Set(branches.map((branch: DraggableItem) => branch.id));
+            const continueNode = branches.find((branch: DraggableItem) => branch.type === 'continue');
+
+            arrows = arrows
+              .filter((arrow: ArrowData) => !(arrow.fromId === existing.id && branchIds.has(arrow.toId)))
+              .map((arrow: ArrowData) =>
+                continueNode && arrow.fromId === continueNode.id ? { ...arrow, fromId: existing.id } : arrow
+              )
+              .filter((arrow: ArrowData) => !branchIds.has(arrow.fromId) && !branchIds.has(arrow.toId));
+            items = items.filter((item: DraggableItem) => !branchIds.has(item.id));
+          }
+        }
+      }
+    });
+
+    sortedRows.forEach((row: WorkflowProcessItem, index: number) => {
+      if (items.some((item: DraggableItem) => item.workflowId === row.id)) return;
+
+      const type: 'action1' | 'action2' = this.hasReturnValue(row) ? 'action2' : 'action1';
+      const position = this.calculateAutoPosition(
+        row,
+        index,
+        this.DEFAULT_START_X,
+        this.DEFAULT_START_Y,
+        this.DEFAULT_HORIZONTAL_SPACING
       );
+
+      const newItem: DraggableItem = {
+        id: nextId++,
+        label: row.name || `Action ${row.sequence}`,
+        position: { x: position.x, y: position.y },
+        type,
+        workflowId: row.id,
+        properties: this.createPropertiesFromWorkflow(row, position)
+      };
+      items.push(newItem);
+
+      let newTail = newItem;
+      if (type === 'action2') {
+        const newBranches = this.createBranchNodes(newItem, nextId);
+        nextId += newBranches.length;
+        items.push(...newBranches);
+        newBranches.forEach((branch: DraggableItem) => arrows.push({ fromId: newItem.id, toId: branch.id }));
+        newTail = newBranches[0];
+      }
+
+      // Splice the new step in between its neighbours in sequence order
+      const previous = this.findNeighbourStep(items, row.sequence, -1);
+      const next = this.findNeighbourStep(items, row.sequence, 1);
+      const previousTail = previous ? this.getFlowTail(previous, items, arrows) : null;
+
+      if (previousTail && next) {
+        arrows = arrows.filter((arrow: ArrowData) => !(arrow.fromId === previousTail.id && arrow.toId === next.id));
+      }
+      if (previousTail) {
+        arrows.push({ fromId: previousTail.id, toId: newItem.id });
+      }
+      if (next) {
+        arrows.push({ fromId: newTail.id, toId: next.id });
+      }
+    });
+
+    return {
+      ...state,
+      items,
+      arrows,
+      nextId
+    };
+  }
+
+  createBranchNodes(parent: DraggableItem, firstId: number): DraggableItem[] {
+    const continuePos: Position = {
+      x: parent.position.x + this.BRANCH_OFFSET_X,
+      y: parent.position.y - this.BRANCH_OFFSET_Y
+    };
+    const rejectPos: Position = {
+      x: parent.position.x + this.BRANCH_OFFSET_X,
+      y: parent.position.y + this.BRANCH_OFFSET_Y
+    };
+
+    return [
+      {
+        id: firstId,
+        label: 'Continue',
+        position: continuePos,
+        type: 'continue',
+        properties: { position: { ...continuePos } }
+      },
+      {
+        id: firstId + 1,
+        label: 'Reject',
+        position: rejectPos,
+        type: 'reject',
+        properties: { position: { ...rejectPos } }
+      }
+    ];
+  }
+
+  getBranchNodes(item: DraggableItem, items: DraggableItem[], arrows: ArrowData[]): DraggableItem[] {
+    if (item.type !== 'action2') return [];
+
+    return items.filter((candidate: DraggableItem) =>
+      (candidate.type === 'continue' || candidate.type === 'reject') &&
+      arrows.some((arrow: ArrowData) => arrow.fromId === item.id && arrow.toId === candidate.id)
+    );
+  }
+
+  // The node the flow leaves a step from: the step itself, or the Continue node of an Action 2
+  getFlowTail(item: DraggableItem, items: DraggableItem[], arrows: ArrowData[]): DraggableItem {
+    const continueNode = this.getBranchNodes(item, items, arrows)
+      .find((branch: DraggableItem) => branch.type === 'continue');
+    return continueNode || item;
+  }
+
+  hasReturnValue(row: Partial<WorkflowProcessItem> | WorkflowProperties): boolean {
+    return row['return_input_property_value'] != null && row['return_input_property_value'] !== '';
+  }
+
+  private findNeighbourStep(items: DraggableItem[], sequence: number, direction: -1 | 1): DraggableItem | null {
+    let best: DraggableItem | null = null;
+
+    items.forEach((item: DraggableItem) => {
+      if (!item.workflowId || (item.type !== 'action1' && item.type !== 'action2')) return;
+
+      const itemSeq = item.properties?.sequence || 0;
+      if (direction < 0 ? itemSeq >= sequence : itemSeq <= sequence) return;
+
+      const bestSeq = best?.properties?.sequence || 0;
+      if (!best || (direction < 0 ? itemSeq > bestSeq : itemSeq < bestSeq)) {
+        best = item;
+      }
+    });
+
+    return best;
+  }
+
+  private isUsablePosition(position: any): boolean {
+    return this.isValidPosition(position) && !(position.x === 0 && position.y === 0);
   }
 
 
@@ -334,6 +967,8 @@ export class WorkflowserviceService {
     delete props.project_id;
     delete props.logical_module_id;
     delete props.page_id;
+    // The row's version is tracked on workflowData, never on the canvas
+    delete props.version;
     
     
     props.position = { x: position.x, y: position.y };
@@ -0,0 +1,76 @@
+import { TestBed } from '@angular/core/testing';
+
+import { WorkflowsimulatorService } from './workflowsimulator.service';
+import { WorkflowProcessItem } from './workflowservice.service';
+
+describe('WorkflowsimulatorService', () => {
+  let service: WorkflowsimulatorService;
+
+  const step = (id: string, sequence: number, input: string, output: string, extra: Partial<WorkflowProcessItem> = {}): WorkflowProcessItem => ({
+    id,
+    project_id: 1,
+    logical_module_id: 10,
+    page_id: 80,
+    sequence,
+    name: `Step ${sequence}`,
+    input_property_value: input,
+    return_input_property_value: null,
+    output_property_name_id: 410,
+    output_property_value: output,
+    output_property_reject_value: null,
+    execute: '',
+    work_flow_access_level_id: 1,
+    ...extra
+  });
+
+  const rows = [
+    step('3', 1, 'New', 'Submitted', { execute: 'email' }),
+    step('4', 2, 'Submitted', 'Verified', { return_input_property_value: 'Resubmitted' }),
+    step('5', 3, 'Verified', 'Approved', { output_property_reject_value: 'Resubmitted', execute: 'email,posting' })
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(WorkflowsimulatorService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should walk a record through to the end of the workflow', () => {
+    let state = service.start(rows, 'New', 1);
+    expect(state.activeWorkflowId).toBe('3');
+
+    state = service.advance(rows, state, 'continue');
+    state = service.advance(rows, state, 'continue');
+    state = service.advance(rows, state, 'continue');
+
+    expect(state.finished).toBeTrue();
+    expect(state.status).toBe('Approved');
+    expect(state.history.map(h => h.toValue)).toEqual(['Submitted', 'Verified', 'Approved']);
+    expect(state.history[2].effects).toEqual(['email', 'posting']);
+  });
+
+  it('should send a rejected record back to the step that accepts resubmissions', () => {
+    let state = service.start(rows, 'Verified', 1);
+
+    state = service.advance(rows, state, 'reject');
+
+    expect(state.status).toBe('Resubmitted');
+    expect(state.activeWorkflowId).toBe('4');
+  });
+
+  it('should find a step whatever whitespace surrounds the status', () => {
+    expect(service.findStep(rows, ' Submitted ')?.id).toBe('4');
+    expect(service.findStep([step('6', 1, ' Draft', 'New')], 'Draft')?.id).toBe('6');
+  });
+
+  it('should not act on a step the access level does not allow', () => {
+    const restricted = [step('3', 1, 'New', 'Submitted', { work_flow_access_level_id: 2 })];
+    const state = service.advance(restricted, service.start(restricted, 'New', 1), 'continue');
+
+    expect(state.status).toBe('New');
+    expect(state.message).toContain('access level 2');
+  });
+});
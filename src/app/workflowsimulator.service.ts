@@ -0,0 +1,158 @@
+import { Injectable } from '@angular/core';
+import { WorkflowProcessItem } from './workflowservice.service';
+import { ExecutehandlerService } from './executehandler.service';
+
+export type StepDecision = 'continue' | 'reject';
+
+export interface SimulationStep {
+  workflowId: string;
+  name: string;
+  decision: StepDecision;
+  propertyId: number | null;
+  fromValue: string;
+  toValue: string;
+  effects: string[];
+}
+
+export interface SimulationState {
+  status: string;
+  accessLevelId: number;
+  activeWorkflowId: string | null;
+  history: SimulationStep[];
+  finished: boolean;
+  message: string | null;
+}
+
+/**
+ * Walks a sample record through a page's workflowProcess steps without a
+ * backend: the record's status picks the step that accepts it, and each
+ * decision moves it to the step's output (or reject) value.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WorkflowsimulatorService {
+
+  // The server engine builds one without DI, so the parser it shares with the designer has a default
+  constructor(private executeHandlers: ExecutehandlerService = new ExecutehandlerService()) {}
+
+  start(rows: WorkflowProcessItem[], status: string, accessLevelId: number): SimulationState {
+    return this.settle(rows, {
+      status,
+      accessLevelId,
+      activeWorkflowId: null,
+      history: [],
+      finished: false,
+      message: null
+    });
+  }
+
+  advance(rows: WorkflowProcessItem[], state: SimulationState, decision: StepDecision): SimulationState {
+    const step = rows.find((row: WorkflowProcessItem) => row.id === state.activeWorkflowId);
+    if (!step || state.finished) {
+      return { ...state, message: 'There is no active step to act on.' };
+    }
+
+    if (!this.hasAccess(step, state.accessLevelId)) {
+      return {
+        ...state,
+        message: `"${step.name}" requires access level ${step['work_flow_access_level_id']}.`
+      };
+    }
+
+    if (decision === 'reject' && !this.canReject(step)) {
+      return { ...state, message: `"${step.name}" has no reject value.` };
+    }
+
+    const toValue = decision === 'reject'
+      ? String(step['output_property_reject_value'])
+      : String(step['output_property_value'] ?? '');
+
+    const taken: SimulationStep = {
+      workflowId: step.id,
+      name: step.name,
+      decision,
+      propertyId: step['output_property_name_id'] ?? null,
+      fromValue: state.status,
+      toValue,
+      effects: this.executeHandlers.parseExecute(step['execute'])
+    };
+
+    return this.settle(rows, {
+      ...state,
+      status: toValue,
+      history: [...state.history, taken],
+      message: null
+    });
+  }
+
+  setAccessLevel(state: SimulationState, accessLevelId: number): SimulationState {
+    return { ...state, accessLevelId, message: null };
+  }
+
+  // The step that accepts a record in this status, as a new input or as a resubmission
+  findStep(rows: WorkflowProcessItem[], status: string): WorkflowProcessItem | null {
+    const sorted = [...rows].sort((a: WorkflowProcessItem, b: WorkflowProcessItem) => (a.sequence || 0) - (b.sequence || 0));
+    const wanted = this.normalize(status);
+
+    return sorted.find((row: WorkflowProcessItem) => this.normalize(row['input_property_value']) === wanted) ||
+           sorted.find((row: WorkflowProcessItem) => this.normalize(row['return_input_property_value']) === wanted) ||
+           null;
+  }
+
+  getStartStatuses(rows: WorkflowProcessItem[]): string[] {
+    const statuses: string[] = [];
+    [...rows]
+      .sort((a: WorkflowProcessItem, b: WorkflowProcessItem) => (a.sequence || 0) - (b.sequence || 0))
+      .forEach((row: WorkflowProcessItem) => {
+        [row['input_property_value'], row['return_input_property_value']].forEach((value: any) => {
+          const status = this.normalize(value);
+          if (status && !statuses.includes(status)) statuses.push(status);
+        });
+      });
+    return statuses;
+  }
+
+  getAccessLevels(rows: WorkflowProcessItem[]): number[] {
+    const levels = new Set<number>();
+    rows.forEach((row: WorkflowProcessItem) => {
+      if (row['work_flow_access_level_id'] != null) levels.add(row['work_flow_access_level_id']);
+    });
+    return [...levels].sort((a: number, b: number) => a - b);
+  }
+
+  hasAccess(step: WorkflowProcessItem, accessLevelId: number): boolean {
+    const required = step['work_flow_access_level_id'];
+    return required == null || required === 0 || required === accessLevelId;
+  }
+
+  canReject(step: WorkflowProcessItem): boolean {
+    return !!this.normalize(step['output_property_reject_value']);
+  }
+
+  private settle(rows: WorkflowProcessItem[], state: SimulationState): SimulationState {
+    const next = this.findStep(rows, state.status);
+
+    if (!next) {
+      return {
+        ...state,
+        activeWorkflowId: null,
+        finished: true,
+        message: state.history.length > 0
+          ? `No step accepts "${state.status}": the workflow is complete.`
+          : `No step accepts "${state.status}".`
+      };
+    }
+
+    // Guard against a flow that keeps handing the record back to the same step
+    if (state.history.length > rows.length * 10) {
+      return { ...state, activeWorkflowId: null, finished: true, message: 'Stopped: the workflow appears to loop.' };
+    }
+
+    return { ...state, activeWorkflowId: next.id, finished: false };
+  }
+
+  private normalize(value: any): string {
+    return value == null ? '' : String(value).trim();
+  }
+}
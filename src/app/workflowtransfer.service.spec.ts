@@ -0,0 +1,98 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+
+import { WorkflowtransferService, WorkflowDocument } from './workflowtransfer.service';
+import { WorkflowProcessItem } from './workflowservice.service';
+
+describe('WorkflowtransferService', () => {
+  let service: WorkflowtransferService;
+
+  const page = { project_id: 1, logical_module_id: 10, page_id: 80 };
+
+  const row = (id: string, sequence: number, name: string, extra: Partial<WorkflowProcessItem> = {}): WorkflowProcessItem => ({
+    id,
+    ...page,
+    sequence,
+    name,
+    input_property_value: 'New',
+    output_property_value: 'Submitted',
+    ...extra
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule]
+    });
+    service = TestBed.inject(WorkflowtransferService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should round-trip a document through YAML', () => {
+    const document = service.createDocument(page, [row('3', 1, 'Entry')], null);
+
+    const parsed = service.parse(service.serialize(document, 'yaml'));
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.document?.steps[0]).toEqual(jasmine.objectContaining({ id: '3', name: 'Entry' }));
+    expect(parsed.document?.steps[0]['page_id']).toBeUndefined();
+  });
+
+  it('should leave webhook secrets out of exported steps', () => {
+    const document = service.createDocument(page, [row('3', 1, 'Entry', {
+      execute: 'webhook',
+      execute_config: { webhook: { url: 'https://hooks.example.com', secret: 'hunter2', secretName: 'billing' } }
+    })], null);
+
+    expect(document.steps[0]['execute_config']).toEqual({ webhook: { url: 'https://hooks.example.com', secretName: 'billing' } });
+  });
+
+  it('should reject documents of another kind, version or shape', () => {
+    expect(service.validateDocument({ kind: 'other' }).length).toBe(1);
+
+    const document: any = service.createDocument(page, [row('3', 1, 'Entry'), row('4', 1, '')], null);
+    expect(service.validateDocument(document)).toEqual([
+      'steps[1].name is required.',
+      'steps[1] repeats sequence 1.'
+    ]);
+
+    document.version = 2;
+    expect(service.validateDocument(document)[0]).toContain('Unsupported document version 2');
+  });
+
+  it('should plan creates, updates and deletes against the target page by sequence', () => {
+    const document: WorkflowDocument = service.createDocument(page, [
+      row('3', 1, 'Entry'),
+      row('4', 2, 'Review', { output_property_value: 'Reviewed' }),
+      row('9', 3, 'Archive')
+    ], null);
+    const target = { project_id: 2, logical_module_id: 20, page_id: 5 };
+
+    const plan = service.diff(document, [
+      row('11', 1, 'Entry', target),
+      row('12', 2, 'Review', target),
+      row('13', 4, 'Legacy', target)
+    ], target);
+
+    expect(plan.unchanged).toBe(1);
+    expect(plan.updates[0].changes).toEqual([{ field: 'output_property_value', from: 'Submitted', to: 'Reviewed' }]);
+    expect(plan.creates.map(s => s.name)).toEqual(['Archive']);
+    expect(plan.deletes.map(r => r.name)).toEqual(['Legacy']);
+  });
+
+  it('should point layout nodes at the imported row ids', () => {
+    const layout = service.remapLayout({
+      items: [
+        { id: 1, label: 'Entry', type: 'action1', position: { x: 0, y: 0 }, workflowId: '3' },
+        { id: 2, label: 'Gone', type: 'action1', position: { x: 0, y: 150 }, workflowId: '7' }
+      ],
+      arrows: [{ fromId: 1, toId: 2 }],
+      nextId: 3
+    }, new Map([['3', '11']]));
+
+    expect(layout.items.map(i => i.workflowId)).toEqual(['11']);
+    expect(layout.arrows).toEqual([]);
+  });
+});
@@ -0,0 +1,391 @@
+import { Injectable } from '@angular/core';
+import { MonoTypeOperatorFunction, Observable, concat, forkJoin, of } from 'rxjs';
+import { catchError, map, switchMap, toArray } from 'rxjs/operators';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import {
+  WorkflowserviceService,
+  WorkflowProcessItem,
+  WorkflowPageRef,
+  DraggableItem,
+  ArrowData,
+  SavedState,
+  Position,
+  WorkflowConflictError,
+  WorkflowRequestError
+} from './workflowservice.service';
+import { WorkflowfieldschemaService, WORKFLOW_FIELDS, WorkflowFieldSchema } from './workflowfieldschema.service';
+import { ExecuteConfig } from './executehandler.service';
+
+export const WORKFLOW_DOCUMENT_KIND = 'taskend.workflow';
+export const WORKFLOW_DOCUMENT_VERSION = 1;
+export const WORKFLOW_DOCUMENT_SCHEMA_URL = 'assets/schemas/workflow-document.v1.json';
+
+export type WorkflowDocumentFormat = 'json' | 'yaml';
+
+// A row without the page it belongs to; the page is chosen on import
+export interface WorkflowDocumentStep {
+  id: string;
+  sequence: number;
+  name: string;
+  position?: Position;
+  [key: string]: any;
+}
+
+export interface WorkflowDocumentLayout {
+  items: DraggableItem[];
+  arrows: ArrowData[];
+  nextId: number;
+}
+
+export interface WorkflowDocument {
+  $schema: string;
+  kind: string;
+  version: number;
+  exportedAt: string;
+  source: WorkflowPageRef;
+  steps: WorkflowDocumentStep[];
+  layout: WorkflowDocumentLayout | null;
+}
+
+export interface WorkflowFieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface WorkflowStepUpdate {
+  current: WorkflowProcessItem;
+  step: WorkflowDocumentStep;
+  changes: WorkflowFieldChange[];
+}
+
+export interface WorkflowImportPlan {
+  target: WorkflowPageRef;
+  creates: WorkflowDocumentStep[];
+  updates: WorkflowStepUpdate[];
+  deletes: WorkflowProcessItem[];
+  unchanged: number;
+}
+
+export interface WorkflowImportResult {
+  created: number;
+  updated: number;
+  deleted: number;
+  failed: string[];
+}
+
+export interface WorkflowDocumentParseResult {
+  document: WorkflowDocument | null;
+  errors: string[];
+}
+
+// Page keys come from the import target; audit fields are rewritten on every save
+const PAGE_KEYS = ['project_id', 'logical_module_id', 'page_id'];
+const REQUIRED_STEP_KEYS = ['sequence', 'name'];
+const IGNORED_DIFF_KEYS = ['id', ...PAGE_KEYS, 'position', 'createdby', 'createddate', 'lastmodifiedby', 'lastmodifieddate', 'version'];
+
+/**
+ * Moves a page's workflow in and out of the app as one versioned document:
+ * its workflowProcess rows plus the canvas layout. Steps are matched to the
+ * target page's rows by sequence number when importing.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WorkflowtransferService {
+
+  constructor(
+    private workflowService: WorkflowserviceService,
+    private fieldSchema: WorkflowfieldschemaService
+  ) { }
+
+  exportPage(page: WorkflowPageRef): Observable<WorkflowDocument> {
+    return forkJoin({
+      rows: this.workflowService.getWorkflowProcessByPage(page),
+      state: this.workflowService.getCanvasState(page)
+    }).pipe(
+      map(({ rows, state }: { rows: WorkflowProcessItem[]; state: SavedState | null }) => this.createDocument(page, rows, state))
+    );
+  }
+
+  createDocument(page: WorkflowPageRef, rows: WorkflowProcessItem[], state: SavedState | null): WorkflowDocument {
+    return {
+      $schema: WORKFLOW_DOCUMENT_SCHEMA_URL,
+      kind: WORKFLOW_DOCUMENT_KIND,
+      version: WORKFLOW_DOCUMENT_VERSION,
+      exportedAt: new Date().toISOString(),
+      source: {
+        project_id: page.project_id,
+        logical_module_id: page.logical_module_id,
+        page_id: page.page_id
+      },
+      steps: [...rows]
+        .sort((a: WorkflowProcessItem, b: WorkflowProcessItem) => (a.sequence || 0) - (b.sequence || 0))
+        .map((row: WorkflowProcessItem) => this.toStep(row)),
+      layout: state ? { items: state.items, arrows: state.arrows || [], nextId: state.nextId } : null
+    };
+  }
+
+  serialize(document: WorkflowDocument, format: WorkflowDocumentFormat): string {
+    return format === 'yaml'
+      ? stringifyYaml(document)
+      : JSON.stringify(document, null, 2);
+  }
+
+  getFileName(document: WorkflowDocument, format: WorkflowDocumentFormat): string {
+    const { project_id, logical_module_id, page_id } = document.source;
+    return `workflow-${project_id}-${logical_module_id}-${page_id}.${format === 'yaml' ? 'yaml' : 'json'}`;
+  }
+
+  /** Reads a JSON or YAML document and checks it against the document schema */
+  parse(text: string): WorkflowDocumentParseResult {
+    let value: any;
+    try {
+      value = text.trim().startsWith('{') ? JSON.parse(text) : parseYaml(text);
+    } catch (error) {
+      return { document: null, errors: [`The file is not valid JSON or YAML: ${error instanceof Error ? error.message : error}`] };
+    }
+
+    const errors = this.validateDocument(value);
+    return { document: errors.length === 0 ? value as WorkflowDocument : null, errors };
+  }
+
+  validateDocument(value: any): string[] {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return ['The document must be an object.'];
+    }
+    if (value.kind !== WORKFLOW_DOCUMENT_KIND) {
+      return [`This is not a workflow document (expected kind "${WORKFLOW_DOCUMENT_KIND}").`];
+    }
+    if (value.version !== WORKFLOW_DOCUMENT_VERSION) {
+      return [`Unsupported document version ${value.version}; this app reads version ${WORKFLOW_DOCUMENT_VERSION}.`];
+    }
+
+    const errors: string[] = [];
+
+    if (!value.source || PAGE_KEYS.some((key: string) => !Number.isInteger(value.source[key]))) {
+      errors.push('source must give integer project_id, logical_module_id and page_id.');
+    }
+
+    if (!Array.isArray(value.steps)) {
+      errors.push('steps must be a list.');
+    } else {
+      const sequences = new Set<number>();
+      value.steps.forEach((step: any, index: number) => {
+        const where = `steps[${index}]`;
+        if (!step || typeof step !== 'object') {
+          errors.push(`${where} must be an object.`);
+          return;
+        }
+        if (typeof step.id !== 'string' || step.id === '') {
+          errors.push(`${where}.id must be a non-empty string.`);
+        }
+        WORKFLOW_FIELDS.forEach((field: WorkflowFieldSchema) => {
+          const error = this.checkFieldType(field, step[field.key]);
+          if (error) errors.push(`${where}.${field.key} ${error}`);
+        });
+        if (Number.isInteger(step.sequence)) {
+          if (sequences.has(step.sequence)) errors.push(`${where} repeats sequence ${step.sequence}.`);
+          sequences.add(step.sequence);
+        }
+      });
+    }
+
+    if (value.layout != null) {
+      const layout = value.layout;
+      if (!Array.isArray(layout.items) || !Array.isArray(layout.arrows) || !Number.isInteger(layout.nextId)) {
+        errors.push('layout must have items and arrows lists and an integer nextId.');
+      }
+    }
+
+    return errors;
+  }
+
+  /** Compares a document with the rows currently on the target page */
+  diff(document: WorkflowDocument, currentRows: WorkflowProcessItem[], target: WorkflowPageRef): WorkflowImportPlan {
+    const plan: WorkflowImportPlan = { target, creates: [], updates: [], deletes: [], unchanged: 0 };
+    const remaining = [...currentRows];
+
+    document.steps.forEach((step: WorkflowDocumentStep) => {
+      const index = remaining.findIndex((row: WorkflowProcessItem) => row.sequence === step.sequence);
+      if (index === -1) {
+        plan.creates.push(step);
+        return;
+      }
+
+      const [current] = remaining.splice(index, 1);
+      const changes = this.compare(current, step);
+      if (changes.length > 0) {
+        plan.updates.push({ current, step, changes });
+      } else {
+        plan.unchanged++;
+      }
+    });
+
+    plan.deletes = remaining;
+    return plan;
+  }
+
+  /**
+   * Writes the plan one request at a time, then saves the document's layout
+   * with its nodes pointed at the target page's row ids.
+   */
+  apply(document: WorkflowDocument, plan: WorkflowImportPlan): Observable<WorkflowImportResult> {
+    const target = plan.target;
+    const timestamp = this.workflowService.getCurrentTimestamp();
+    const idMap = new Map<string, string>();
+    const result: WorkflowImportResult = { created: 0, updated: 0, deleted: 0, failed: [] };
+
+    const deletes = plan.deletes.map((row: WorkflowProcessItem) =>
+      this.workflowService.deleteWorkflowProcess(row.id).pipe(
+        // Already gone counts as deleted
+        map(() => {
+          result.deleted++;
+        }),
+        this.recordFailure(result)
+      )
+    );
+
+    const updates = plan.updates.map((update: WorkflowStepUpdate) =>
+      this.workflowService.updateWorkflowProcess(update.current.id, {
+        ...update.current,
+        ...this.withoutId(update.step),
+        ...target,
+        id: update.current.id,
+        version: update.current.version,
+        lastmodifiedby: 1,
+        lastmodifieddate: timestamp
+      }).pipe(
+        map(() => {
+          result.updated++;
+          idMap.set(update.step.id, update.current.id);
+        }),
+        catchError((error: any) => {
+          if (!(error instanceof WorkflowConflictError)) throw error;
+          result.failed.push(`"${update.step.name}" was changed by someone else since the plan was made.`);
+          return of(undefined);
+        }),
+        this.recordFailure(result)
+      )
+    );
+
+    const creates = plan.creates.map((step: WorkflowDocumentStep) =>
+      this.workflowService.createWorkflowProcess({
+        ...this.withoutId(step),
+        ...target,
+        createdby: 1,
+        createddate: timestamp,
+        lastmodifiedby: null,
+        lastmodifieddate: null
+      }).pipe(
+        map((saved: WorkflowProcessItem) => {
+          result.created++;
+          idMap.set(step.id, saved.id);
+        }),
+        this.recordFailure(result)
+      )
+    );
+
+    const unchanged = document.steps.filter((step: WorkflowDocumentStep) =>
+      !plan.creates.includes(step) && !plan.updates.some((u: WorkflowStepUpdate) => u.step === step)
+    );
+
+    return concat(...deletes, ...updates, ...creates).pipe(
+      toArray(),
+      switchMap(() => this.workflowService.getWorkflowProcessByPage(target)),
+      switchMap((rows: WorkflowProcessItem[]) => {
+        // Unchanged steps kept their rows; find them by sequence like diff() did
+        unchanged.forEach((step: WorkflowDocumentStep) => {
+          const row = rows.find((r: WorkflowProcessItem) => r.sequence === step.sequence);
+          if (row) idMap.set(step.id, row.id);
+        });
+
+        if (!document.layout) return of(result);
+        return this.workflowService.saveCanvasState(target, this.remapLayout(document.layout, idMap)).pipe(
+          this.recordFailure(result),
+          map(() => result)
+        );
+      })
+    );
+  }
+
+  remapLayout(layout: WorkflowDocumentLayout, idMap: Map<string, string>): SavedState {
+    // Nodes whose step did not make it across are dropped along with their arrows
+    const items = layout.items
+      .filter((item: DraggableItem) => !item.workflowId || idMap.has(item.workflowId))
+      .map((item: DraggableItem) => ({
+        ...item,
+        workflowId: item.workflowId ? idMap.get(item.workflowId) : undefined
+      }));
+    const itemIds = new Set(items.map((item: DraggableItem) => item.id));
+
+    return {
+      items,
+      arrows: layout.arrows.filter((arrow: ArrowData) => itemIds.has(arrow.fromId) && itemIds.has(arrow.toId)),
+      nextId: layout.nextId
+    };
+  }
+
+  private compare(current: WorkflowProcessItem, step: WorkflowDocumentStep): WorkflowFieldChange[] {
+    const keys = new Set([...Object.keys(current), ...Object.keys(step)]);
+    const changes: WorkflowFieldChange[] = [];
+
+    keys.forEach((key: string) => {
+      if (IGNORED_DIFF_KEYS.includes(key)) return;
+      const from = current[key] ?? null;
+      const to = step[key] ?? null;
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes.push({ field: key, from, to });
+      }
+    });
+    return changes;
+  }
+
+  private checkFieldType(field: WorkflowFieldSchema, value: any): string | null {
+    const required = REQUIRED_STEP_KEYS.includes(field.key);
+    if (value == null) {
+      return required ? 'is required.' : null;
+    }
+    if ((field.type === 'integer' || field.type === 'lookup') && !Number.isInteger(value)) {
+      return 'must be an integer.';
+    }
+    if ((field.type === 'text' || field.type === 'datetime' || field.type === 'handlers') && typeof value !== 'string') {
+      return 'must be a string.';
+    }
+    const error = this.fieldSchema.validateField({ ...field, required, nullable: true }, value);
+    return error ? error.replace(`${field.label} `, '') : null;
+  }
+
+  private toStep(row: WorkflowProcessItem): WorkflowDocumentStep {
+    const step: any = { ...row };
+    PAGE_KEYS.forEach((key: string) => delete step[key]);
+    delete step.version;
+    if (step.execute_config) {
+      step.execute_config = this.withoutSecrets(step.execute_config);
+    }
+    return step as WorkflowDocumentStep;
+  }
+
+  // Steps saved before secrets moved to the server may still hold one in plain text; it stays out of files
+  private withoutSecrets(config: ExecuteConfig): ExecuteConfig {
+    const stripped: ExecuteConfig = {};
+    Object.keys(config).forEach((handler: string) => {
+      const { secret, ...rest } = config[handler] || {};
+      stripped[handler] = rest;
+    });
+    return stripped;
+  }
+
+  // A failed request is listed in the result and the rest of the import carries on
+  private recordFailure<T>(result: WorkflowImportResult): MonoTypeOperatorFunction<T | undefined> {
+    return catchError((error: any) => {
+      result.failed.push(`${WorkflowRequestError.from(error, 'import the workflow').message}.`);
+      return of(undefined);
+    });
+  }
+
+  private withoutId(step: WorkflowDocumentStep): Partial<WorkflowProcessItem> {
+    const { id, ...rest } = step;
+    return rest;
+  }
+}
@@ -0,0 +1,39 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { FormsModule } from '@angular/forms';
+
+import { WorkflowtransferComponent } from './workflowtransfer.component';
+
+describe('WorkflowtransferComponent', () => {
+  let component: WorkflowtransferComponent;
+  let fixture: ComponentFixture<WorkflowtransferComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule, FormsModule],
+      declarations: [WorkflowtransferComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(WorkflowtransferComponent);
+    component = fixture.componentInstance;
+    component.page = { project_id: 1, logical_module_id: 10, page_id: 80 };
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should default the import target to the open page', () => {
+    expect(component.target).toEqual({ project_id: 1, logical_module_id: 10, page_id: 80 });
+  });
+
+  it('should list errors for a document that does not validate', () => {
+    component.importText = 'kind: something-else\nversion: 1\n';
+    component.readDocument();
+
+    expect(component.document).toBeNull();
+    expect(component.parseErrors.length).toBe(1);
+  });
+});
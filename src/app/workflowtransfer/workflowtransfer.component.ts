@@ -0,0 +1,158 @@
+import { Component, EventEmitter, Inject, Input, OnInit, Output } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { WorkflowserviceService, WorkflowPageRef, WorkflowProcessItem } from '../workflowservice.service';
+import {
+  WorkflowtransferService,
+  WorkflowDocument,
+  WorkflowDocumentFormat,
+  WorkflowImportPlan,
+  WorkflowImportResult,
+  WorkflowDocumentParseResult
+} from '../workflowtransfer.service';
+import { NotificationService } from '../notification.service';
+
+/**
+ * Export/import panel for the page open in the designer. Import is three
+ * steps: load a document, review the diff against the target page, apply.
+ */
+@Component({
+  selector: 'app-workflowtransfer',
+  templateUrl: './workflowtransfer.component.html',
+  styleUrls: ['./workflowtransfer.component.css']
+})
+export class WorkflowtransferComponent implements OnInit {
+
+  @Input() page!: WorkflowPageRef;
+  @Output() closed = new EventEmitter<void>();
+  @Output() imported = new EventEmitter<WorkflowPageRef>();
+
+  exportFormat: WorkflowDocumentFormat = 'json';
+  exporting = false;
+
+  importText = '';
+  parseErrors: string[] = [];
+  document: WorkflowDocument | null = null;
+  target: WorkflowPageRef = { project_id: 0, logical_module_id: 0, page_id: 0 };
+  plan: WorkflowImportPlan | null = null;
+  planning = false;
+  applying = false;
+  result: WorkflowImportResult | null = null;
+
+  constructor(
+    private workflowService: WorkflowserviceService,
+    private transferService: WorkflowtransferService,
+    private notifications: NotificationService,
+    @Inject(DOCUMENT) private dom: Document
+  ) { }
+
+  ngOnInit(): void {
+    this.target = { ...this.page };
+  }
+
+  exportWorkflow(): void {
+    this.exporting = true;
+    this.transferService.exportPage(this.page)
+      .subscribe({
+        next: (document: WorkflowDocument) => {
+          const text = this.transferService.serialize(document, this.exportFormat);
+          const type = this.exportFormat === 'yaml' ? 'application/yaml' : 'application/json';
+          this.download(text, this.transferService.getFileName(document, this.exportFormat), type);
+          this.exporting = false;
+        },
+        error: (error: any) => {
+          this.exporting = false;
+          this.notifications.error(error, () => this.exportWorkflow());
+        }
+      });
+  }
+
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files && input.files[0];
+    if (!file) return;
+
+    file.text().then((text: string) => {
+      this.importText = text;
+      this.readDocument();
+      input.value = '';
+    });
+  }
+
+  readDocument(): void {
+    const parsed: WorkflowDocumentParseResult = this.transferService.parse(this.importText);
+    this.parseErrors = parsed.errors;
+    this.document = parsed.document;
+    this.plan = null;
+    this.result = null;
+    if (this.document) {
+      this.buildPlan();
+    }
+  }
+
+  /** Re-run when the target page changes, so the diff is always against the page that will be written */
+  buildPlan(): void {
+    const document = this.document;
+    if (!document || !this.isValidTarget()) {
+      this.plan = null;
+      return;
+    }
+
+    const target = { ...this.target };
+    this.planning = true;
+    this.workflowService.getWorkflowProcessByPage(target)
+      .subscribe({
+        next: (rows: WorkflowProcessItem[]) => {
+          if (document !== this.document) return;
+          this.plan = this.transferService.diff(document, rows, target);
+          this.planning = false;
+        },
+        error: (error: any) => {
+          if (document !== this.document) return;
+          this.planning = false;
+          this.notifications.error(error, () => this.buildPlan());
+        }
+      });
+  }
+
+  applyImport(): void {
+    if (!this.document || !this.plan) return;
+
+    const target = this.plan.target;
+    this.applying = true;
+    this.transferService.apply(this.document, this.plan)
+      .subscribe({
+        next: (result: WorkflowImportResult) => {
+          this.result = result;
+          this.applying = false;
+          this.plan = null;
+          this.imported.emit(target);
+        },
+        error: (error: any) => {
+          this.applying = false;
+          this.notifications.error(error);
+        }
+      });
+  }
+
+  isValidTarget(): boolean {
+    return [this.target.project_id, this.target.logical_module_id, this.target.page_id]
+      .every((id: number) => Number.isInteger(id) && id > 0);
+  }
+
+  hasChanges(plan: WorkflowImportPlan): boolean {
+    return plan.creates.length + plan.updates.length + plan.deletes.length > 0;
+  }
+
+  formatValue(value: any): string {
+    return value == null || value === '' ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  private download(text: string, fileName: string, type: string): void {
+    const url = URL.createObjectURL(new Blob([text], { type }));
+    const link = this.dom.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
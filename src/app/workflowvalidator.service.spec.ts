@@ -0,0 +1,112 @@
+import { TestBed } from '@angular/core/testing';
+
+import { WorkflowvalidatorService, WorkflowDiagnostic } from './workflowvalidator.service';
+import { WorkflowProcessItem } from './workflowservice.service';
+
+describe('WorkflowvalidatorService', () => {
+  let service: WorkflowvalidatorService;
+
+  const step = (id: string, sequence: number, input: string, output: string, extra: Partial<WorkflowProcessItem> = {}): WorkflowProcessItem => ({
+    id,
+    project_id: 1,
+    logical_module_id: 10,
+    page_id: 80,
+    sequence,
+    name: `Step ${sequence}`,
+    input_property_name_id: 410,
+    input_property_value: input,
+    return_input_property_value: null,
+    work_flow_action_id: 1,
+    reject_action_id: null,
+    output_property_name_id: 410,
+    output_property_value: output,
+    output_property_reject_value: null,
+    ...extra
+  });
+
+  const codes = (diagnostics: WorkflowDiagnostic[]) => diagnostics.map((d: WorkflowDiagnostic) => d.code);
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(WorkflowvalidatorService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should accept a chained workflow with a resubmission loop', () => {
+    const diagnostics = service.validate([
+      step('3', 1, 'New', 'Submitted'),
+      step('4', 2, 'Submitted', 'Verified', { return_input_property_value: 'Resubmitted' }),
+      step('5', 3, 'Verified', 'Approved', { reject_action_id: 5, output_property_reject_value: 'Resubmitted' })
+    ]);
+
+    expect(service.hasErrors(diagnostics)).toBeFalse();
+  });
+
+  it('should report a broken chain between consecutive steps', () => {
+    const diagnostics = service.validate([
+      step('3', 1, 'New', 'Submitted'),
+      step('4', 2, 'Checked', 'Verified')
+    ]);
+
+    expect(codes(diagnostics)).toContain('broken-chain');
+    expect(codes(diagnostics)).toContain('multiple-entry-steps');
+  });
+
+  it('should report duplicate sequence numbers', () => {
+    const diagnostics = service.validate([
+      step('3', 1, 'New', 'Submitted'),
+      step('4', 1, 'Submitted', 'Verified')
+    ]);
+
+    const duplicate = diagnostics.find((d: WorkflowDiagnostic) => d.code === 'duplicate-sequence');
+    expect(duplicate?.workflowIds).toEqual(['3', '4']);
+  });
+
+  it('should report unknown action references', () => {
+    service.setKnownActionIds([1, 2, 3]);
+    const diagnostics = service.validate([
+      step('3', 1, 'New', 'Submitted', { work_flow_action_id: 99, reject_action_id: 42 })
+    ]);
+
+    expect(codes(diagnostics)).toContain('unknown-action');
+    expect(codes(diagnostics)).toContain('unknown-reject-action');
+  });
+
+  it('should not check action references before the known actions are set', () => {
+    const diagnostics = service.validate([
+      step('3', 1, 'New', 'Submitted', { work_flow_action_id: 99, reject_action_id: 42 })
+    ]);
+
+    expect(codes(diagnostics)).not.toContain('unknown-action');
+    expect(codes(diagnostics)).not.toContain('unknown-reject-action');
+  });
+
+  it('should only warn about a step without an action', () => {
+    service.setKnownActionIds([1, 2, 3]);
+    const diagnostics = service.validate([
+      step('3', 1, 'New', 'Submitted', { work_flow_action_id: 0 })
+    ]);
+
+    expect(codes(diagnostics)).toEqual(['missing-action']);
+    expect(service.hasErrors(diagnostics)).toBeFalse();
+  });
+
+  it('should report unregistered handlers and incomplete handler configuration', () => {
+    const diagnostics = service.validate([
+      step('3', 1, 'New', 'Submitted', { execute: 'email,fax,webhook' })
+    ]);
+
+    expect(codes(diagnostics)).toEqual(['unknown-execute-handler', 'invalid-execute-config']);
+  });
+
+  it('should warn when a return value is never produced', () => {
+    const diagnostics = service.validate([
+      step('3', 1, 'New', 'Submitted', { return_input_property_value: 'Reapproved' })
+    ]);
+
+    expect(codes(diagnostics)).toContain('orphan-return-value');
+  });
+});
@@ -0,0 +1,334 @@
+import { Injectable } from '@angular/core';
+import { ArrowData, DraggableItem, WorkflowProcessItem } from './workflowservice.service';
+import { ExecutehandlerService } from './executehandler.service';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface WorkflowDiagnostic {
+  severity: DiagnosticSeverity;
+  code: string;
+  message: string;
+  workflowIds: string[];
+  arrow?: ArrowData;
+}
+
+export interface WorkflowGraph {
+  items: DraggableItem[];
+  arrows: ArrowData[];
+}
+
+/**
+ * Checks a page's workflow for consistency. Rows are validated on their own
+ * (entry step, sequence numbers, status chaining, action references) and,
+ * when a canvas graph is given, against the arrows drawn between the nodes.
+ * Errors block saving; warnings are only shown.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WorkflowvalidatorService {
+
+  // Action ids that workflowProcess rows may refer to; null until the lookups have loaded
+  private knownActionIds: number[] | null = null;
+
+  constructor(private executeHandlers: ExecutehandlerService) {}
+
+  setKnownActionIds(ids: number[]): void {
+    this.knownActionIds = [...ids];
+  }
+
+  validate(rows: WorkflowProcessItem[], graph?: WorkflowGraph): WorkflowDiagnostic[] {
+    const diagnostics: WorkflowDiagnostic[] = [];
+    const sorted = [...rows].sort((a: WorkflowProcessItem, b: WorkflowProcessItem) => (a.sequence || 0) - (b.sequence || 0));
+
+    if (sorted.length === 0) {
+      return diagnostics;
+    }
+
+    this.checkSequences(sorted, diagnostics);
+    this.checkEntryStep(sorted, diagnostics);
+    this.checkChaining(sorted, diagnostics);
+    this.checkReturnValues(sorted, diagnostics);
+    this.checkActionReferences(sorted, diagnostics);
+    this.checkExecuteHandlers(sorted, diagnostics);
+
+    if (graph) {
+      this.checkGraph(sorted, graph, diagnostics);
+    }
+
+    return diagnostics;
+  }
+
+  hasErrors(diagnostics: WorkflowDiagnostic[]): boolean {
+    return diagnostics.some((d: WorkflowDiagnostic) => d.severity === 'error');
+  }
+
+  private checkSequences(rows: WorkflowProcessItem[], diagnostics: WorkflowDiagnostic[]): void {
+    const bySequence = new Map<number, WorkflowProcessItem[]>();
+
+    rows.forEach((row: WorkflowProcessItem) => {
+      if (!Number.isInteger(row.sequence) || row.sequence < 1) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'invalid-sequence',
+          message: `"${row.name}" has an invalid sequence number (${row.sequence}).`,
+          workflowIds: [row.id]
+        });
+        return;
+      }
+      bySequence.set(row.sequence, [...(bySequence.get(row.sequence) || []), row]);
+    });
+
+    bySequence.forEach((sameSequence: WorkflowProcessItem[], sequence: number) => {
+      if (sameSequence.length > 1) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'duplicate-sequence',
+          message: `Sequence ${sequence} is used by ${sameSequence.map((r: WorkflowProcessItem) => `"${r.name}"`).join(', ')}.`,
+          workflowIds: sameSequence.map((r: WorkflowProcessItem) => r.id)
+        });
+      }
+    });
+  }
+
+  // The entry step is the one whose input status no other step produces
+  private checkEntryStep(rows: WorkflowProcessItem[], diagnostics: WorkflowDiagnostic[]): void {
+    const produced = new Set<string>();
+    rows.forEach((row: WorkflowProcessItem) => {
+      this.addValue(produced, row['output_property_value']);
+      this.addValue(produced, row['output_property_reject_value']);
+    });
+
+    const entries = rows.filter((row: WorkflowProcessItem) => !produced.has(this.normalize(row['input_property_value'])));
+
+    if (entries.length === 0) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'no-entry-step',
+        message: 'No entry step: every input status is produced by another step, so the flow has no start.',
+        workflowIds: []
+      });
+    } else if (entries.length > 1) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'multiple-entry-steps',
+        message: `The flow has ${entries.length} entry steps: ${entries.map((r: WorkflowProcessItem) => `"${r.name}"`).join(', ')}.`,
+        workflowIds: entries.map((r: WorkflowProcessItem) => r.id)
+      });
+    }
+  }
+
+  private checkChaining(rows: WorkflowProcessItem[], diagnostics: WorkflowDiagnostic[]): void {
+    rows.forEach((row: WorkflowProcessItem, index: number) => {
+      if (!this.normalize(row['input_property_value'])) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'missing-input-value',
+          message: `"${row.name}" has no input property value.`,
+          workflowIds: [row.id]
+        });
+      }
+      if (!this.normalize(row['output_property_value'])) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'missing-output-value',
+          message: `"${row.name}" has no output property value.`,
+          workflowIds: [row.id]
+        });
+      }
+
+      const next = rows[index + 1];
+      if (!next) return;
+
+      const output = this.normalize(row['output_property_value']);
+      const nextInput = this.normalize(next['input_property_value']);
+      if (output && nextInput && output !== nextInput) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'broken-chain',
+          message: `"${row.name}" outputs "${row['output_property_value']}" but the next step "${next.name}" expects "${next['input_property_value']}".`,
+          workflowIds: [row.id, next.id]
+        });
+      }
+
+      if (row['output_property_name_id'] !== next['input_property_name_id']) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'property-mismatch',
+          message: `"${row.name}" writes property ${row['output_property_name_id']} but "${next.name}" reads property ${next['input_property_name_id']}.`,
+          workflowIds: [row.id, next.id]
+        });
+      }
+    });
+  }
+
+  private checkReturnValues(rows: WorkflowProcessItem[], diagnostics: WorkflowDiagnostic[]): void {
+    rows.forEach((row: WorkflowProcessItem) => {
+      const returnValue = this.normalize(row['return_input_property_value']);
+      if (!returnValue) return;
+
+      const producers = rows.filter((other: WorkflowProcessItem) =>
+        this.normalize(other['output_property_reject_value']) === returnValue ||
+        this.normalize(other['output_property_value']) === returnValue
+      );
+
+      if (producers.length === 0) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'orphan-return-value',
+          message: `"${row.name}" accepts resubmissions as "${row['return_input_property_value']}", but no step produces that value.`,
+          workflowIds: [row.id]
+        });
+      }
+    });
+
+    rows.forEach((row: WorkflowProcessItem) => {
+      const rejectValue = this.normalize(row['output_property_reject_value']);
+      if (!rejectValue) return;
+
+      const accepted = rows.some((other: WorkflowProcessItem) =>
+        this.normalize(other['return_input_property_value']) === rejectValue ||
+        this.normalize(other['input_property_value']) === rejectValue
+      );
+
+      if (!accepted) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'dangling-reject-value',
+          message: `"${row.name}" rejects to "${row['output_property_reject_value']}", which no step accepts.`,
+          workflowIds: [row.id]
+        });
+      }
+    });
+  }
+
+  private checkActionReferences(rows: WorkflowProcessItem[], diagnostics: WorkflowDiagnostic[]): void {
+    const known = this.knownActionIds;
+    rows.forEach((row: WorkflowProcessItem) => {
+      const actionId = row['work_flow_action_id'];
+      // New steps start without an action; that is unfinished rather than wrong
+      if (!actionId) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'missing-action',
+          message: `"${row.name}" has no workflow action yet.`,
+          workflowIds: [row.id]
+        });
+      } else if (known && !known.includes(actionId)) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'unknown-action',
+          message: `"${row.name}" refers to unknown workflow action ${actionId}.`,
+          workflowIds: [row.id]
+        });
+      }
+
+      const rejectActionId = row['reject_action_id'];
+      if (rejectActionId != null && known && !known.includes(rejectActionId)) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'unknown-reject-action',
+          message: `"${row.name}" refers to unknown reject action ${rejectActionId}.`,
+          workflowIds: [row.id]
+        });
+      }
+
+      if (rejectActionId != null && !this.normalize(row['output_property_reject_value'])) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'missing-reject-value',
+          message: `"${row.name}" has a reject action but no reject output value.`,
+          workflowIds: [row.id]
+        });
+      }
+    });
+  }
+
+  private checkExecuteHandlers(rows: WorkflowProcessItem[], diagnostics: WorkflowDiagnostic[]): void {
+    rows.forEach((row: WorkflowProcessItem) => {
+      this.executeHandlers.parseExecute(row['execute']).forEach((name: string) => {
+        if (!this.executeHandlers.getHandler(name)) {
+          diagnostics.push({
+            severity: 'error',
+            code: 'unknown-execute-handler',
+            message: `"${row.name}" executes "${name}", which is not a registered handler.`,
+            workflowIds: [row.id]
+          });
+          return;
+        }
+
+        const config = this.executeHandlers.resolveConfig(name, row['execute_config']);
+        this.executeHandlers.validateConfig(name, config).forEach((error: string) => {
+          diagnostics.push({
+            severity: 'error',
+            code: 'invalid-execute-config',
+            message: `"${row.name}": ${error}`,
+            workflowIds: [row.id]
+          });
+        });
+      });
+    });
+  }
+
+  private checkGraph(rows: WorkflowProcessItem[], graph: WorkflowGraph, diagnostics: WorkflowDiagnostic[]): void {
+    const itemById = new Map<number, DraggableItem>(graph.items.map((item: DraggableItem) => [item.id, item]));
+    const rowById = new Map<string, WorkflowProcessItem>(rows.map((row: WorkflowProcessItem) => [row.id, row]));
+
+    const stepOf = (item: DraggableItem): DraggableItem | undefined => {
+      if (item.type === 'action1' || item.type === 'action2') return item;
+      const parent = graph.arrows.find((arrow: ArrowData) =>
+        arrow.toId === item.id && itemById.get(arrow.fromId)?.type === 'action2'
+      );
+      return parent ? itemById.get(parent.fromId) : undefined;
+    };
+
+    graph.arrows.forEach((arrow: ArrowData) => {
+      const from = itemById.get(arrow.fromId);
+      const to = itemById.get(arrow.toId);
+      if (!from || !to || to.type === 'continue' || to.type === 'reject') return;
+
+      const sourceStep = stepOf(from);
+      const sourceRow = sourceStep?.workflowId ? rowById.get(sourceStep.workflowId) : undefined;
+      const targetRow = to.workflowId ? rowById.get(to.workflowId) : undefined;
+      if (!sourceRow || !targetRow) return;
+
+      const expected = from.type === 'reject'
+        ? this.normalize(sourceRow['output_property_reject_value'])
+        : this.normalize(sourceRow['output_property_value']);
+      const accepted = [
+        this.normalize(targetRow['input_property_value']),
+        this.normalize(targetRow['return_input_property_value'])
+      ];
+
+      if (expected && !accepted.includes(expected)) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'arrow-status-mismatch',
+          message: `The arrow from "${sourceRow.name}" passes on "${expected}", which "${targetRow.name}" does not accept.`,
+          workflowIds: [sourceRow.id, targetRow.id],
+          arrow
+        });
+      }
+    });
+
+    graph.items
+      .filter((item: DraggableItem) => (item.type === 'action1' || item.type === 'action2') && !item.workflowId)
+      .forEach((item: DraggableItem) => {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'unsaved-node',
+          message: `"${item.label}" is not saved to the workflow yet.`,
+          workflowIds: []
+        });
+      });
+  }
+
+  private addValue(values: Set<string>, value: any): void {
+    const normalized = this.normalize(value);
+    if (normalized) values.add(normalized);
+  }
+
+  private normalize(value: any): string {
+    return value == null ? '' : String(value).trim();
+  }
+}
@@ -1,6 +1,12 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { RouterTestingModule } from '@angular/router/testing';
 
 import { WorkstatusComponent } from './workstatus.component';
+import { LookupselectComponent } from '../lookupselect/lookupselect.component';
+import { WorkflowtransferComponent } from '../workflowtransfer/workflowtransfer.component';
+import { MinimapComponent } from '../minimap/minimap.component';
+import { WorkflowmergeComponent } from '../workflowmerge/workflowmerge.component';
 
 describe('WorkstatusComponent', () => {
   let component: WorkstatusComponent;
@@ -8,7 +14,9 @@ describe('WorkstatusComponent', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      declarations: [WorkstatusComponent]
+      imports: [HttpClientTestingModule, RouterTestingModule],
+      declarations: [WorkstatusComponent, LookupselectComponent, WorkflowtransferComponent, MinimapComponent,
+        WorkflowmergeComponent]
     })
     .compileComponents();
     
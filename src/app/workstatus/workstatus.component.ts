@@ -1,14 +1,47 @@
-import { Component, ViewChild, ElementRef, OnInit, Inject, PLATFORM_ID, OnDestroy } from '@angular/core';
+import { Component, ViewChild, ElementRef, OnInit, Inject, PLATFORM_ID, OnDestroy, HostListener, AfterViewInit, ChangeDetectorRef } from '@angular/core';
 import { isPlatformBrowser } from '@angular/common';
-import { interval, Subscription } from 'rxjs';
+import { ActivatedRoute, ParamMap, Router } from '@angular/router';
+import { forkJoin, interval, Subscription } from 'rxjs';
 import { 
   WorkflowserviceService, 
   Position, 
   DraggableItem, 
   WorkflowProperties,
   WorkflowProcessItem,
-  SavedState
+  WorkflowPageRef,
+  WorkflowLookup,
+  WorkflowLookups,
+  SavedState,
+  ArrowData,
+  CanvasPreferences,
+  DEFAULT_CANVAS_PREFERENCES,
+  OfflineReplayResult,
+  WorkflowConflictError,
+  WorkflowRequestError,
+  WorkflowMergeField,
+  WorkflowMergeRequest
 } from '../workflowservice.service';
+import { CanvashistoryService } from '../canvashistory.service';
+import { WorkflowvalidatorService, WorkflowDiagnostic } from '../workflowvalidator.service';
+import { WorkflowsimulatorService, SimulationState, StepDecision } from '../workflowsimulator.service';
+import { ExecutehandlerService, ExecuteHandlerDefinition, ExecuteConfigField } from '../executehandler.service';
+import { DiagramexportService, DiagramFormat, DiagramNode, DiagramEdge } from '../diagramexport.service';
+import {
+  WorkflowfieldschemaService,
+  WorkflowFieldGroup,
+  WorkflowFieldSchema,
+  WorkflowFieldErrors
+} from '../workflowfieldschema.service';
+import { MinimapViewport } from '../minimap/minimap.component';
+import { WorkflowlayoutService, LayoutDirection } from '../workflowlayout.service';
+import {
+  CollaborationService,
+  CollaborationChange,
+  CollaborationEvent,
+  CollaboratorPresence
+} from '../collaboration.service';
+import { NotificationService } from '../notification.service';
+import { OfflinequeueService } from '../offlinequeue.service';
 
 interface Arrow {
   from: DraggableItem;
@@ -17,6 +50,58 @@ interface Arrow {
   strokeDasharray?: string; 
 }
 
+interface AlignmentGuide {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+interface RemoteConflict {
+  itemId: number;
+  label: string;
+  by: string;
+  // Fields edited here and changed remotely, with the remote values
+  theirs: Record<string, any>;
+  removed: boolean;
+}
+
+interface RemoteChangeBatch {
+  clientId: string;
+  changes: CollaborationChange[];
+}
+
+type AlignMode = 'left' | 'center' | 'top';
+type DistributeAxis = 'horizontal' | 'vertical';
+
+interface ArrangePreview {
+  items: DraggableItem[];
+  paths: string[];
+}
+
+interface ConnectionDrag {
+  from: DraggableItem;
+  retarget: Arrow | null;
+}
+
+interface NodeClipboard {
+  type: 'action1' | 'action2';
+  label: string;
+  properties: WorkflowProperties;
+  pasteCount: number;
+}
+
+interface StepSnapshot {
+  items: DraggableItem[];
+  arrows: ArrowData[];
+}
+
+interface ItemSnapshot {
+  label: string;
+  position: Position;
+  properties?: WorkflowProperties;
+}
+
 interface DragPreview {
   label: string;
   type: 'action1' | 'action2';
@@ -27,9 +112,10 @@ interface DragPreview {
 @Component({
   selector: 'app-workstatus',
   templateUrl: './workstatus.component.html',
-  styleUrls: ['./workstatus.component.css']
+  styleUrls: ['./workstatus.component.css'],
+  providers: [CanvashistoryService]
 })
-export class WorkstatusComponent implements OnInit, OnDestroy {
+export class WorkstatusComponent implements OnInit, AfterViewInit, OnDestroy {
 
   @ViewChild('scrollContainer', { static: false }) scrollContainerRef!: ElementRef<HTMLDivElement>;
 
@@ -44,6 +130,60 @@ export class WorkstatusComponent implements OnInit, OnDestroy {
 
   canvasWidth = 3200;
   canvasHeight = 3200;
+  zoom = 1;
+  isPanning = false;
+  panReady = false;
+  minimapOpen = true;
+  minimapViewport: MinimapViewport | null = null;
+
+  preferences: CanvasPreferences = { ...DEFAULT_CANVAS_PREFERENCES };
+  readonly gridSizes = [10, 20, 40];
+  alignmentGuides: AlignmentGuide[] = [];
+  selectedIds = new Set<number>();
+
+  collaborators: CollaboratorPresence[] = [];
+  collaborationConnected = false;
+  remoteConflict: RemoteConflict | null = null;
+  mergeRequest: WorkflowMergeRequest | null = null;
+  pendingChanges = 0;
+  syncingChanges = false;
+
+  diagnostics: WorkflowDiagnostic[] = [];
+  propertyErrors: WorkflowDiagnostic[] = [];
+  fieldErrors: WorkflowFieldErrors = {};
+  lookups: WorkflowLookups = { propertyNames: [], workflowActions: [], accessLevels: [] };
+  diagnosticsOpen = false;
+
+  transferOpen = false;
+  diagramMenuOpen = false;
+  diagramExporting = false;
+  readonly diagramFormats: DiagramFormat[] = ['svg', 'png', 'pdf'];
+  arrangeMenuOpen = false;
+  arrangeDirection: LayoutDirection = 'LR';
+  arrangePreview: ArrangePreview | null = null;
+  simulationOpen = false;
+  simulation: SimulationState | null = null;
+  simulationStartStatus = '';
+  simulationAccessLevel = 1;
+  simulationStatuses: string[] = [];
+  simulationAccessLevels: number[] = [];
+
+  selectedArrow: Arrow | null = null;
+  connectionPreviewPath: string | null = null;
+  private connectionDrag: ConnectionDrag | null = null;
+
+  private readonly NODE_WIDTH = 140;
+  private readonly NODE_HEIGHT = 64;
+
+  private readonly MIN_ZOOM = 0.25;
+  private readonly MAX_ZOOM = 2;
+  private readonly ZOOM_STEP = 1.2;
+  private readonly MIN_CANVAS_SIZE = 3200;
+  private readonly CANVAS_MARGIN = 800;
+  private readonly FIT_PADDING = 40;
+  private readonly GUIDE_THRESHOLD = 6;
+  // How often to check whether the server is back while changes are queued
+  private readonly SYNC_INTERVAL = 10000;
 
   private draggedItem: DraggableItem | null = null;
   private offset: Position = { x: 0, y: 0 };
@@ -60,39 +200,147 @@ export class WorkstatusComponent implements OnInit, OnDestroy {
   private toolbarDragType: 'action1' | 'action2' | null = null;
   dragPreview: DragPreview | null = null;
 
-  private readonly PAGE_ID = 80;
+  page: WorkflowPageRef | null = null;
 
+  private routeSubscription?: Subscription;
   private pollingSubscription?: Subscription;
   private lastWorkflowDataHash: string = '';
+  private pendingCreates = 0;
+  private clipboard: NodeClipboard | null = null;
+
+  private readonly PASTE_OFFSET = 40;
+  private readonly DEFAULT_RETURN_VALUE = 'Resubmitted';
 
-  private readonly AUTO_CREATE_START_X = 120;
-  private readonly AUTO_CREATE_START_Y = 120;
-  private readonly AUTO_CREATE_VERTICAL_SPACING = 150;
   private autoSaveTimer: any = null;
-  private canvasOffset: { left: number; top: number } | null = null;
-  private scrollAtDragStart: { left: number; top: number } | null = null;
+  private panStart: { x: number; y: number; left: number; top: number } | null = null;
+  private removeViewportListeners: (() => void) | null = null;
+  private collaborationSubscription?: Subscription;
+  private hasConnected = false;
+  // The canvas as last shared with the other designers; local saves publish the difference
+  private syncedState: SavedState | null = null;
+  private pendingRemoteChanges: RemoteChangeBatch[] = [];
+  private dragStartPositions = new Map<number, Position>();
+  private mergeQueue: WorkflowMergeRequest[] = [];
+  // Polling reports a lost connection once, not every two seconds
+  private pollingFailed = false;
+  private offlineSubscription?: Subscription;
+  // Row writes are chained per row so that each one is based on the version the last one produced
+  private rowsSaving = new Set<string>();
+  private rowsPendingSave = new Map<string, DraggableItem>();
 
   constructor(
     private workflowService: WorkflowserviceService,
+    private history: CanvashistoryService,
+    private validator: WorkflowvalidatorService,
+    private simulator: WorkflowsimulatorService,
+    private executeHandlers: ExecutehandlerService,
+    private fieldSchema: WorkflowfieldschemaService,
+    private diagramExport: DiagramexportService,
+    private layoutService: WorkflowlayoutService,
+    private collaboration: CollaborationService,
+    private notifications: NotificationService,
+    private offlineQueue: OfflinequeueService,
+    private route: ActivatedRoute,
+    private router: Router,
+    private changeDetector: ChangeDetectorRef,
     @Inject(PLATFORM_ID) private platformId: Object
   ) {
     this.isBrowser = isPlatformBrowser(this.platformId);
   }
 
   ngOnInit(): void {
-    this.loadWorkflowDataAndAutoCreate();
+    this.routeSubscription = this.route.paramMap.subscribe((params: ParamMap) => {
+      const page: WorkflowPageRef = {
+        project_id: Number(params.get('projectId')),
+        logical_module_id: Number(params.get('moduleId')),
+        page_id: Number(params.get('pageId'))
+      };
+
+      if (isNaN(page.project_id) || isNaN(page.logical_module_id) || isNaN(page.page_id)) {
+        console.warn('Invalid workflow route parameters:', params);
+        this.router.navigate(['/']);
+        return;
+      }
+
+      this.openPage(page);
+    });
+    this.loadLookups();
     this.startPolling();
+    this.watchOfflineQueue();
+  }
+
+  ngAfterViewInit(): void {
+    const scrollEl = this.scrollContainerRef?.nativeElement;
+    if (!this.isBrowser || !scrollEl) return;
+
+    // Bound natively: wheel must be non-passive to stop browser zoom, and pan
+    // has to win over node, port and arrow handlers, so it listens in capture
+    const wheelHandler = (e: WheelEvent) => this.onViewportWheel(e);
+    const downHandler = (e: MouseEvent) => this.onViewportMouseDown(e);
+    scrollEl.addEventListener('wheel', wheelHandler, { passive: false });
+    scrollEl.addEventListener('mousedown', downHandler, true);
+
+    this.removeViewportListeners = () => {
+      scrollEl.removeEventListener('wheel', wheelHandler);
+      scrollEl.removeEventListener('mousedown', downHandler, true);
+    };
+
+    // Deferred so the first measurement doesn't change bindings mid-check
+    setTimeout(() => this.updateMinimapViewport());
   }
 
   ngOnDestroy(): void {
+    if (this.removeViewportListeners) {
+      this.removeViewportListeners();
+    }
+    if (this.routeSubscription) {
+      this.routeSubscription.unsubscribe();
+    }
     if (this.pollingSubscription) {
       this.pollingSubscription.unsubscribe();
     }
+    if (this.collaborationSubscription) {
+      this.collaborationSubscription.unsubscribe();
+    }
+    if (this.offlineSubscription) {
+      this.offlineSubscription.unsubscribe();
+    }
     if (this.autoSaveTimer) {
       clearTimeout(this.autoSaveTimer);
     }
   }
 
+  private openPage(page: WorkflowPageRef): void {
+    this.page = page;
+    this.history.clear();
+    this.closePropertyPanel();
+    this.closeSimulation();
+    this.closeArrange();
+    this.preferences = { ...DEFAULT_CANVAS_PREFERENCES };
+    this.selectedIds = new Set<number>();
+    this.items = [];
+    this.arrows = [];
+    this.selectedArrow = null;
+    this.zoom = 1;
+    this.workflowData = [];
+    this.lastCreatedItem = null;
+    this.lastWorkflowDataHash = '';
+    this.nextId = 1;
+    this.sequenceCounter = 1;
+    this.syncedState = null;
+    this.pendingRemoteChanges = [];
+    this.remoteConflict = null;
+    this.mergeRequest = null;
+    this.mergeQueue = [];
+    this.pollingFailed = false;
+    this.rowsSaving.clear();
+    this.rowsPendingSave.clear();
+    this.collaborators = [];
+    this.loadWorkflowDataAndAutoCreate();
+    this.connectCollaboration(page);
+  }
+
+  // Fallback for when the live channel is down
   private startPolling(): void {
     if (!this.isBrowser) return;
     this.pollingSubscription = interval(2000).subscribe(() => {
@@ -101,175 +349,431 @@ export class WorkstatusComponent implements OnInit, OnDestroy {
   }
 
   private checkForWorkflowChanges(): void {
-    this.workflowService.getWorkflowProcessByPageId(this.PAGE_ID)
+    const page = this.page;
+    // Rows we are still creating would otherwise show up twice, and the server
+    // does not have queued offline edits yet, so it would undo them on screen
+    if (!page || this.pendingCreates > 0 || this.collaborationConnected || this.pendingChanges > 0) return;
+
+    this.workflowService.getWorkflowProcessByPage(page)
       .subscribe({
         next: (data: WorkflowProcessItem[]) => {
+          if (page !== this.page) return;
+          this.pollingFailed = false;
+
           const currentHash = JSON.stringify(data);
           if (currentHash !== this.lastWorkflowDataHash) {
             this.lastWorkflowDataHash = currentHash;
             this.workflowData = data;
-            // console.log('Workflow data updated from server for page_id:', this.PAGE_ID);
-            this.autoCreateAction1FromJSON();
+            // console.log('Workflow data updated from server for page:', this.page);
+            this.syncCanvasWithWorkflow(this.toSavedState());
+          }
+        },
+        error: (error: any) => {
+          if (page !== this.page || this.pollingFailed) return;
+          this.pollingFailed = true;
+          this.notifications.error(error);
+        }
+      });
+  }
+
+  private watchOfflineQueue(): void {
+    if (!this.isBrowser) return;
+
+    this.offlineSubscription = this.offlineQueue.pending$.subscribe((count: number) => this.pendingChanges = count);
+    this.offlineSubscription.add(interval(this.SYNC_INTERVAL).subscribe(() => this.syncOfflineChanges()));
+  }
+
+  @HostListener('window:online')
+  syncOfflineChanges(): void {
+    if (this.pendingChanges === 0 || this.syncingChanges) return;
+
+    this.syncingChanges = true;
+    this.workflowService.replayOfflineQueue()
+      .subscribe({
+        next: (result: OfflineReplayResult) => {
+          this.syncingChanges = false;
+          result.failed.forEach((error: WorkflowRequestError) => this.notifications.error(error));
+          result.conflicts.forEach((error: WorkflowConflictError) => {
+            if (!this.page || !this.workflowService.isSamePage(error.server, this.page)) {
+              this.notifications.error(error);
+              return;
+            }
+            // Nothing to compare against but the server row, so every differing field is offered
+            this.queueMerge({ base: error.server, local: error.local, server: error.server });
+          });
+          if (!result.complete) return;
+
+          if (result.sent > 0) {
+            this.notifications.info(`Synced ${result.sent} offline change${result.sent === 1 ? '' : 's'}`);
           }
+          // Rows created offline have their real ids now
+          this.loadWorkflowDataAndAutoCreate();
         },
         error: (error: any) => {
-          console.error('Error checking workflow changes:', error);
+          this.syncingChanges = false;
+          console.error('Error syncing offline changes:', error);
         }
       });
   }
 
   private loadWorkflowDataAndAutoCreate(): void {
-    this.workflowService.getWorkflowProcessByPageId(this.PAGE_ID)
+    const page = this.page;
+    if (!page) return;
+
+    forkJoin({
+      state: this.workflowService.getCanvasState(page),
+      data: this.workflowService.getWorkflowProcessByPage(page)
+    })
       .subscribe({
-        next: (data: WorkflowProcessItem[]) => {
+        next: ({ state, data }: { state: SavedState | null; data: WorkflowProcessItem[] }) => {
+          if (page !== this.page) return;
+
           this.workflowData = data;
           this.lastWorkflowDataHash = JSON.stringify(this.workflowData);
-          // console.log('Workflow data loaded from server for page_id:', this.PAGE_ID, this.workflowData);
-          this.autoCreateAction1FromJSON();
+          // console.log('Workflow data loaded from server for page:', this.page, this.workflowData);
+
+          this.syncCanvasWithWorkflow(state);
         },
+        // Leave the canvas alone: an empty result here would look like a page without steps
         error: (error: any) => {
-          console.error('Error loading workflow data:', error);
+          if (page !== this.page) return;
+          this.notifications.error(error, () => {
+            if (page === this.page) this.loadWorkflowDataAndAutoCreate();
+          });
         }
       });
   }
 
-  private autoCreateAction1FromJSON(): void {
-    if (this.workflowData.length === 0) {
-      console.log('No workflow data found for page_id:', this.PAGE_ID);
-      return;
+  private connectCollaboration(page: WorkflowPageRef): void {
+    if (this.collaborationSubscription) {
+      this.collaborationSubscription.unsubscribe();
     }
+    this.collaborationConnected = false;
+    this.hasConnected = false;
 
-    this.items = [];
-    this.arrows = [];
-    this.lastCreatedItem = null;
-    this.nextId = 1;
+    this.collaborationSubscription = this.collaboration.connect(page)
+      .subscribe({
+        next: (event: CollaborationEvent) => {
+          if (page === this.page) {
+            this.onCollaborationEvent(event);
+          }
+        },
+        error: (error: any) => {
+          console.error('Collaboration channel error:', error);
+          this.collaborationConnected = false;
+        }
+      });
+  }
+
+  private onCollaborationEvent(event: CollaborationEvent): void {
+    switch (event.type) {
+      case 'welcome':
+        this.collaborationConnected = true;
+        this.collaborators = this.getOtherCollaborators(event.presence);
+        // Anything sent while the stream was down only reached the server
+        if (this.hasConnected) {
+          this.loadWorkflowDataAndAutoCreate();
+        }
+        this.hasConnected = true;
+        this.publishSelection();
+        break;
+      case 'presence':
+        this.collaborators = this.getOtherCollaborators(event.presence);
+        break;
+      case 'changes':
+        if (event.clientId !== this.collaboration.clientId) {
+          this.pendingRemoteChanges.push({ clientId: event.clientId, changes: event.changes });
+          if (!this.draggedItem && !this.connectionDrag) {
+            this.flushRemoteChanges(new Set<number>());
+          }
+        }
+        break;
+      case 'disconnected':
+        this.collaborationConnected = false;
+        break;
+    }
+  }
 
-    const sortedData = this.workflowService.sortBySequence(this.workflowData);
+  private getOtherCollaborators(presence: CollaboratorPresence[]): CollaboratorPresence[] {
+    return presence.filter((collaborator: CollaboratorPresence) => collaborator.clientId !== this.collaboration.clientId);
+  }
 
-    sortedData.forEach((workflowItem: WorkflowProcessItem, index: number) => {
-      const position = this.workflowService.calculateAutoPosition(
-        workflowItem, 
-        index,
-        this.AUTO_CREATE_START_X,
-        this.AUTO_CREATE_START_Y,
-        this.AUTO_CREATE_VERTICAL_SPACING
+  /**
+   * Merges the remote changes that arrived while a drag was in progress.
+   * Moves of the nodes just dropped here are skipped: the local drop wins.
+   */
+  private flushRemoteChanges(keepIds: Set<number>): void {
+    const batches = this.pendingRemoteChanges;
+    this.pendingRemoteChanges = [];
+
+    batches.forEach((batch: RemoteChangeBatch) => {
+      const changes = batch.changes.filter((change: CollaborationChange) =>
+        !(change.kind === 'node-moved' && keepIds.has(change.itemId))
       );
-      
-      // Check if return_input_property_value exists and is not empty
-      const hasReturnValue = workflowItem['return_input_property_value'] != null && 
-                       workflowItem['return_input_property_value'] !== '';
-
-      if (hasReturnValue) {
-        // Create Action 2 instead of Action 1
-        const action2Item: DraggableItem = {
-          id: this.nextId++,
-          label: workflowItem.name || `Action ${workflowItem.sequence}`,
-          position: { x: position.x, y: position.y },
-          type: 'action2',
-          workflowId: workflowItem.id,
-          properties: this.workflowService.createPropertiesFromWorkflow(workflowItem, position)
-        };
-
-        // Calculate positions for Continue and Reject nodes (positioned to the right of Action 2)
-        const continuePos: Position = { 
-          x: position.x + 240, 
-          y: position.y - 70 
-        };
-        const rejectPos: Position = { 
-          x: position.x + 240, 
-          y: position.y + 70 
-        };
-
-        // Create Continue node
-        const continueItem: DraggableItem = {
-          id: this.nextId++,
-          label: 'Continue',
-          position: { x: continuePos.x, y: continuePos.y },
-          type: 'continue',
-          properties: { position: continuePos }
-        };
-
-        // Create Reject node
-        const rejectItem: DraggableItem = {
-          id: this.nextId++,
-          label: 'Reject',
-          position: { x: rejectPos.x, y: rejectPos.y },
-          type: 'reject',
-          properties: { position: rejectPos }
-        };
-
-        // Add all three items to the canvas
-        this.items.push(action2Item, continueItem, rejectItem);
-
-        // Create arrows: from previous item to Action 2
-        if (this.lastCreatedItem) {
-          this.createArrow(this.lastCreatedItem, action2Item);
+      if (changes.length > 0) {
+        this.applyRemoteChanges(batch.clientId, changes);
+      }
+    });
+  }
+
+  private applyRemoteChanges(clientId: string, changes: CollaborationChange[]): void {
+    this.detectRemoteConflict(clientId, changes);
+
+    const merged = this.collaboration.applyChanges(this.toSavedState(), changes);
+    if (merged.collision) {
+      console.warn('Remote node ids clash with local ones, reloading the canvas');
+      this.loadWorkflowDataAndAutoCreate();
+      return;
+    }
+
+    this.applyCanvasState(merged.state);
+    this.syncedState = this.syncedState
+      ? this.collaboration.applyChanges(this.syncedState, changes).state
+      : this.cloneData(merged.state);
+    this.runValidation();
+
+    if (changes.some((change: CollaborationChange) => change.kind !== 'node-moved')) {
+      this.refreshWorkflowRows();
+    }
+  }
+
+  private detectRemoteConflict(clientId: string, changes: CollaborationChange[]): void {
+    const item = this.selectedItem;
+    if (!this.propertyPanelOpen || !item) return;
+
+    const by = this.getCollaboratorName(clientId);
+    const dirty = this.getDirtyFields();
+
+    changes.forEach((change: CollaborationChange) => {
+      if (change.kind === 'node-removed' && change.itemId === item.id) {
+        this.remoteConflict = { itemId: item.id, label: item.label, by, theirs: {}, removed: true };
+      } else if (change.kind === 'node-updated' && change.itemId === item.id) {
+        const theirs: Record<string, any> = {};
+        Object.keys(change.properties).forEach((key: string) => {
+          if (dirty.includes(key)) {
+            theirs[key] = change.properties[key];
+          } else {
+            // Fields not edited here simply follow the remote value
+            this.propertyForm[key] = change.properties[key];
+          }
+        });
+
+        if (Object.keys(theirs).length > 0) {
+          this.remoteConflict = { itemId: item.id, label: item.label, by, theirs, removed: false };
         }
-        
-        // Create arrows from Action 2 to its Continue and Reject children (dotted lines)
-        this.createArrow(action2Item, continueItem);
-        this.createArrow(action2Item, rejectItem);
-
-        // Set lastCreatedItem to Continue so that the next workflow item
-        // connects from Continue only, not from Action 2 directly
-        this.lastCreatedItem = continueItem;
-        
-      } else {
-        // Create Action 1 (original logic)
-        const newItem: DraggableItem = {
-          id: this.nextId++,
-          label: workflowItem.name || `Action ${workflowItem.sequence}`,
-          position: { x: position.x, y: position.y },
-          type: 'action1',
-          workflowId: workflowItem.id,
-          properties: this.workflowService.createPropertiesFromWorkflow(workflowItem, position)
-        };
-
-        this.items.push(newItem);
-
-        if (this.lastCreatedItem) {
-          this.createArrow(this.lastCreatedItem, newItem);
+      }
+    });
+  }
+
+  // Property panel fields that differ from the node as last saved
+  private getDirtyFields(): string[] {
+    const saved: WorkflowProperties = this.selectedItem?.properties || { position: { x: 0, y: 0 } };
+    return Object.keys(this.propertyForm).filter((key: string) =>
+      key !== 'position' && JSON.stringify(this.propertyForm[key]) !== JSON.stringify(saved[key])
+    );
+  }
+
+  getConflictFields(): string[] {
+    return this.remoteConflict ? Object.keys(this.remoteConflict.theirs) : [];
+  }
+
+  keepLocalEdits(): void {
+    this.remoteConflict = null;
+  }
+
+  takeRemoteEdits(): void {
+    const conflict = this.remoteConflict;
+    this.remoteConflict = null;
+    if (!conflict || !this.selectedItem || this.selectedItem.id !== conflict.itemId) return;
+
+    Object.keys(conflict.theirs).forEach((key: string) => this.propertyForm[key] = conflict.theirs[key]);
+    this.fieldErrors = this.fieldSchema.validate(this.propertyForm);
+  }
+
+  getCollaboratorName(clientId: string): string {
+    const collaborator = this.collaborators.find((other: CollaboratorPresence) => other.clientId === clientId);
+    return collaborator ? collaborator.name : 'Another designer';
+  }
+
+  getRemoteSelector(item: DraggableItem): CollaboratorPresence | null {
+    return this.collaborators.find((other: CollaboratorPresence) => other.selection === item.id) || null;
+  }
+
+  getInitials(name: string): string {
+    return name.split(/\s+/).map((part: string) => part.charAt(0)).join('').slice(0, 2).toUpperCase();
+  }
+
+  private publishLocalChanges(page: WorkflowPageRef): void {
+    const state = this.cloneData(this.toSavedState());
+    const baseline = this.syncedState;
+    this.syncedState = state;
+    if (!baseline || !this.collaborationConnected) return;
+
+    const changes = this.collaboration.diffStates(baseline, state);
+    if (changes.length === 0) return;
+
+    this.collaboration.publish(page, changes)
+      .subscribe({
+        next: (revision: number | null) => {
+          if (revision !== null) {
+            console.log('Canvas changes published, revision', revision);
+          }
+        },
+        error: (error: any) => {
+          console.error('Error publishing canvas changes:', error);
+        }
+      });
+  }
+
+  private publishSelection(): void {
+    if (!this.page || !this.collaborationConnected) return;
+
+    this.collaboration.updatePresence(this.page, this.selectedItem ? this.selectedItem.id : null)
+      .subscribe({
+        error: (error: any) => {
+          console.error('Error updating presence:', error);
+        }
+      });
+  }
+
+  // Rows changed by another designer, picked up without rebuilding the canvas
+  private refreshWorkflowRows(): void {
+    const page = this.page;
+    if (!page) return;
+
+    this.workflowService.getWorkflowProcessByPage(page)
+      .subscribe({
+        next: (data: WorkflowProcessItem[]) => {
+          if (page !== this.page) return;
+          this.workflowData = data;
+          this.lastWorkflowDataHash = JSON.stringify(data);
+          this.runValidation();
+        },
+        error: (error: any) => {
+          if (page !== this.page) return;
+          this.notifications.error(error, () => {
+            if (page === this.page) this.refreshWorkflowRows();
+          });
+        }
+      });
+  }
+
+  private loadLookups(): void {
+    this.workflowService.getLookups()
+      .subscribe({
+        next: (lookups: WorkflowLookups) => {
+          this.lookups = lookups;
+          if (lookups.workflowActions.length > 0) {
+            this.validator.setKnownActionIds(lookups.workflowActions.map((action: WorkflowLookup) => action.id));
+            this.runValidation();
+          }
+        },
+        error: (error: any) => {
+          console.error('Error loading lookups:', error);
         }
+      });
+  }
+
+  private syncCanvasWithWorkflow(state: SavedState | null): void {
+    if (this.workflowData.length === 0 && (!state || state.items.length === 0)) {
+      console.log('No workflow data found for page:', this.page);
+      return;
+    }
+
+    const reconciled = this.workflowService.reconcileCanvasState(state, this.workflowData);
+    this.syncedState = state ? this.cloneData(state) : null;
+    this.applyCanvasState(reconciled);
+
+    if (!state || JSON.stringify(reconciled) !== JSON.stringify(state)) {
+      this.saveCanvasState();
+    }
+
+    console.log('Reconciled workflow items:', this.items.length);
+  }
 
-        this.lastCreatedItem = newItem;
+  private applyCanvasState(state: SavedState): void {
+    this.items = state.items;
+    this.arrows = [];
+    this.selectedArrow = null;
+    this.preferences = { ...DEFAULT_CANVAS_PREFERENCES, ...state.preferences };
+    this.selectedIds = new Set([...this.selectedIds].filter((id: number) =>
+      this.items.some((item: DraggableItem) => item.id === id)
+    ));
+
+    (state.arrows || []).forEach((arrowData: ArrowData) => {
+      const from = this.items.find((i: DraggableItem) => i.id === arrowData.fromId);
+      const to = this.items.find((i: DraggableItem) => i.id === arrowData.toId);
+      if (from && to) {
+        this.createArrow(from, to);
       }
     });
 
+    const maxId = Math.max(...this.items.map((i: DraggableItem) => i.id), 0);
+    this.nextId = Math.max(state.nextId || 0, maxId + 1);
+    this.lastCreatedItem = this.findFlowTail();
+
+    // Keep the property panel pointed at the refreshed node
+    if (this.selectedItem) {
+      this.selectedItem = this.items.find((i: DraggableItem) => i.id === this.selectedItem!.id) || null;
+      if (!this.selectedItem) {
+        this.closePropertyPanel();
+      }
+    }
+
+    this.updateSequenceCounter();
+    this.updateAllArrows();
+    this.runValidation();
+  }
+
+  private toSavedState(): SavedState {
+    return {
+      items: this.items,
+      arrows: this.arrows.map((arrow: Arrow) => ({
+        fromId: arrow.from.id,
+        toId: arrow.to.id
+      })),
+      nextId: this.nextId,
+      preferences: this.preferences
+    };
+  }
+
+  // The last step in sequence order, or its Continue node when it is an Action 2
+  private findFlowTail(): DraggableItem | null {
+    const actions = this.items
+      .filter((i: DraggableItem) => i.type === 'action1' || i.type === 'action2')
+      .sort((a: DraggableItem, b: DraggableItem) => (a.properties?.sequence || 0) - (b.properties?.sequence || 0));
+    const last = actions[actions.length - 1];
+
+    if (!last) return null;
+    if (last.type === 'action1') return last;
+
+    const continueArrow = this.arrows.find((arrow: Arrow) => arrow.from.id === last.id && arrow.to.type === 'continue');
+    return continueArrow ? continueArrow.to : last;
+  }
+
+  private updateSequenceCounter(): void {
     // Calculate max sequence from actual workflow items only (not Continue/Reject nodes)
     const maxSeq = Math.max(...this.items
       .filter((i: DraggableItem) => i.type === 'action1' || i.type === 'action2')
       .map((i: DraggableItem) => i.properties?.sequence || 0), 0);
     this.sequenceCounter = maxSeq + 1;
-
-    this.updateAllArrows();
-    this.saveCanvasState();
-    
-    console.log('Auto-created workflow items:', this.items.length);
   }
 
   private saveCanvasState(): void {
-    if (!this.isBrowser) return;
-
-    const arrowData = this.arrows.map((arrow: Arrow) => ({
-      fromId: arrow.from.id,
-      toId: arrow.to.id
-    }));
+    this.runValidation();
+    if (!this.isBrowser || !this.page) return;
 
-    const state: SavedState = {
-      items: this.items,
-      arrows: arrowData,
-      nextId: this.nextId
-    };
+    this.publishLocalChanges(this.page);
 
-    this.workflowService.saveCanvasState(state)
+    const page = this.page;
+    this.workflowService.saveCanvasState(page, this.toSavedState())
       .subscribe({
-        next: (response: SavedState | null) => {
-          if (response) {
-            console.log('Canvas state saved');
-          }
-        },
+        next: () => console.log('Canvas state saved'),
         error: (error: any) => {
-          console.error('Error saving canvas state:', error);
+          if (page !== this.page) return;
+          this.notifications.error(error, () => {
+            if (page === this.page) this.saveCanvasState();
+          });
         }
       });
   }
@@ -277,10 +781,16 @@ export class WorkstatusComponent implements OnInit, OnDestroy {
   private updateWorkflowPosition(item: DraggableItem): void {
     if (!this.isBrowser || !item.workflowId) return;
 
-    const workflowItem = this.workflowData.find((w: WorkflowProcessItem) => w.id === item.workflowId);
+    const workflowId = item.workflowId;
+    if (this.rowsSaving.has(workflowId)) {
+      this.rowsPendingSave.set(workflowId, item);
+      return;
+    }
+
+    const workflowItem = this.workflowData.find((w: WorkflowProcessItem) => w.id === workflowId);
     
     if (!workflowItem) {
-      console.warn('Workflow item not found for ID:', item.workflowId);
+      console.warn('Workflow item not found for ID:', workflowId);
       return;
     }
 
@@ -291,34 +801,113 @@ export class WorkstatusComponent implements OnInit, OnDestroy {
 
     if (item.properties) {
       Object.keys(item.properties).forEach((key: string) => {
-        if (key !== 'position' && item.properties![key] !== undefined) {
+        if (key !== 'position' && key !== 'version' && item.properties![key] !== undefined) {
           updateData[key] = item.properties![key];
         }
       });
     }
 
+    const page = this.page;
+    this.rowsSaving.add(workflowId);
     this.workflowService.updateWorkflowPosition(
-      item.workflowId,
+      workflowId,
       item.position,
       updateData
     ).subscribe({
-      next: (response: WorkflowProcessItem | null) => {
-        if (response) {
-          console.log(`Workflow item ${item.workflowId} updated - Position: (${item.position.x}, ${item.position.y})`);
-          
-          const index = this.workflowData.findIndex((w: WorkflowProcessItem) => w.id === item.workflowId);
-          if (index !== -1) {
-            this.workflowData[index] = { ...this.workflowData[index], ...updateData };
-            this.lastWorkflowDataHash = JSON.stringify(this.workflowData);
-          }
+      next: (response: WorkflowProcessItem) => {
+        console.log(`Workflow item ${workflowId} updated - Position: (${item.position.x}, ${item.position.y})`);
+
+        const index = this.workflowData.findIndex((w: WorkflowProcessItem) => w.id === workflowId);
+        if (index !== -1) {
+          this.workflowData[index] = { ...this.workflowData[index], ...updateData, version: response.version };
+          this.lastWorkflowDataHash = JSON.stringify(this.workflowData);
         }
+        this.finishRowSave(workflowId);
       },
       error: (error: any) => {
-        console.error('Error updating workflow position:', error);
+        this.rowsSaving.delete(workflowId);
+        if (page !== this.page) return;
+        if (error instanceof WorkflowConflictError) {
+          this.rowsPendingSave.delete(workflowId);
+          this.onRowConflict({ base: workflowItem, local: error.local, server: error.server });
+          return;
+        }
+        // A newer edit of the row supersedes the failed one; otherwise offer to send it again
+        if (this.rowsPendingSave.has(workflowId)) {
+          this.finishRowSave(workflowId);
+          return;
+        }
+        this.notifications.error(error, () => {
+          if (page === this.page && this.items.includes(item)) this.updateWorkflowPosition(item);
+        });
       }
     });
   }
 
+  private finishRowSave(workflowId: string): void {
+    this.rowsSaving.delete(workflowId);
+    const pending = this.rowsPendingSave.get(workflowId);
+    if (pending) {
+      this.rowsPendingSave.delete(workflowId);
+      this.updateWorkflowPosition(pending);
+    }
+  }
+
+  /**
+   * Someone saved the row since we read it. Fields only one side changed are
+   * merged without asking; the dialog opens only when both changed a field.
+   */
+  private onRowConflict(request: WorkflowMergeRequest): void {
+    const fields = this.workflowService.getMergeFields(request);
+    if (!fields.some((field: WorkflowMergeField) => field.conflicting)) {
+      this.applyMergedRow(this.workflowService.mergeWorkflowRows(request.server, fields));
+      return;
+    }
+
+    this.queueMerge(request);
+  }
+
+  private queueMerge(request: WorkflowMergeRequest): void {
+    const sameRow = (other: WorkflowMergeRequest) => other.server.id === request.server.id;
+    if (!this.mergeRequest || sameRow(this.mergeRequest)) {
+      this.mergeRequest = request;
+    } else {
+      this.mergeQueue = [...this.mergeQueue.filter((other: WorkflowMergeRequest) => !sameRow(other)), request];
+    }
+  }
+
+  onMergeResolved(row: WorkflowProcessItem): void {
+    this.mergeRequest = this.mergeQueue.shift() || null;
+    this.applyMergedRow(row);
+  }
+
+  // Takes the merged row as the new base, shows it on the canvas and writes it back
+  private applyMergedRow(row: WorkflowProcessItem): void {
+    const index = this.workflowData.findIndex((w: WorkflowProcessItem) => w.id === row.id);
+    if (index === -1) return;
+    this.workflowData[index] = row;
+    this.lastWorkflowDataHash = JSON.stringify(this.workflowData);
+
+    const item = this.items.find((i: DraggableItem) => i.workflowId === row.id);
+    if (!item) return;
+
+    if (this.workflowService.isValidPosition(row.position)) {
+      item.position = { x: row.position!.x, y: row.position!.y };
+    }
+    item.label = row.name;
+    item.properties = this.workflowService.createPropertiesFromWorkflow(row, item.position);
+
+    if (this.selectedItem === item) {
+      this.propertyForm = { ...item.properties } as WorkflowProperties;
+      this.fieldErrors = this.fieldSchema.validate(this.propertyForm);
+    }
+
+    this.updateAllArrows();
+    this.runValidation();
+    this.updateWorkflowPosition(item);
+    this.saveCanvasState();
+  }
+
   private autoSavePosition(item: DraggableItem): void {
     if (this.autoSaveTimer) {
       clearTimeout(this.autoSaveTimer);
@@ -377,23 +966,16 @@ export class WorkstatusComponent implements OnInit, OnDestroy {
       return;
     }
 
-    const canvas = scrollEl.querySelector('.canvas') as HTMLElement;
-    if (!canvas) {
-      this.resetToolbarDrag();
-      return;
-    }
+    // Only drops over the visible part of the canvas count
+    const viewportRect = scrollEl.getBoundingClientRect();
+    const point = this.clientToCanvas(event.clientX, event.clientY);
 
-    const canvasRect = canvas.getBoundingClientRect();
-    
-    if (event.clientX >= canvasRect.left && 
-        event.clientX <= canvasRect.right &&
-        event.clientY >= canvasRect.top && 
-        event.clientY <= canvasRect.bottom) {
-      
-      const x = event.clientX - canvasRect.left + scrollEl.scrollLeft;
-      const y = event.clientY - canvasRect.top + scrollEl.scrollTop;
-      
-      this.createItemAtPosition(x, y);
+    if (point &&
+        event.clientX >= viewportRect.left &&
+        event.clientX <= viewportRect.right &&
+        event.clientY >= viewportRect.top &&
+        event.clientY <= viewportRect.bottom) {
+      this.createItemAtPosition(point.x, point.y);
     }
 
     this.resetToolbarDrag();
@@ -409,270 +991,1569 @@ export class WorkstatusComponent implements OnInit, OnDestroy {
   private createItemAtPosition(x: number, y: number): void {
     if (!this.toolbarDragType || !this.toolbarDragLabel) return;
 
-    const position: Position = { x: x - 70, y: y - 32 };
+    const position = this.snapPosition({
+      x: Math.max(0, x - this.NODE_WIDTH / 2),
+      y: Math.max(0, y - this.NODE_HEIGHT / 2)
+    });
+    const properties = this.workflowService.generateDefaultProperties(this.toolbarDragLabel, position, this.sequenceCounter);
 
-    const newItem: DraggableItem = {
-      id: this.nextId++,
-      label: this.toolbarDragLabel,
-      position: { x: position.x, y: position.y },
-      type: this.toolbarDragType,
-      properties: this.getDefaultProperties(this.toolbarDragLabel, position)
+    if (this.toolbarDragType === 'action2') {
+      // A step is drawn as an Action 2 when it accepts resubmitted records
+      properties.return_input_property_value = this.DEFAULT_RETURN_VALUE;
+    }
+
+    this.createStep(this.toolbarDragType, this.toolbarDragLabel, properties, position, this.lastCreatedItem);
+  }
+
+  toggleSidenav(): void {
+    this.isExpanded = !this.isExpanded;
+    setTimeout(() => this.updateAllArrows(), 320);
+  }
+
+  onMouseDown(event: MouseEvent, item: DraggableItem): void {
+    event.preventDefault();
+    this.selectedArrow = null;
+
+    if (event.shiftKey || event.ctrlKey || event.metaKey) {
+      this.toggleSelected(item);
+      return;
+    }
+    this.selectedIds = new Set<number>();
+    
+    if (this.clickTimeout) {
+      clearTimeout(this.clickTimeout);
+      this.clickTimeout = null;
+    }
+
+    this.clickTimeout = setTimeout(() => {
+      if (!this.isDragging) {
+        this.onItemClick(item);
+      }
+      this.clickTimeout = null;
+    }, 200);
+
+    this.startDragging(item, event);
+  }
+
+  onItemClick(item: DraggableItem): void {
+    if (item.type === 'reject') return;
+
+    this.selectedItem = item;
+    this.propertyForm = { ...item.properties } as WorkflowProperties;
+    this.fieldErrors = {};
+    this.propertyPanelOpen = true;
+    this.remoteConflict = null;
+    this.publishSelection();
+  }
+
+  closePropertyPanel(): void {
+    this.propertyErrors = [];
+    this.fieldErrors = {};
+    this.propertyPanelOpen = false;
+    this.selectedItem = null;
+    this.propertyForm = { position: { x: 0, y: 0 } };
+    if (this.remoteConflict && !this.remoteConflict.removed) {
+      this.remoteConflict = null;
+    }
+    this.publishSelection();
+  }
+
+  saveProperties(): void {
+    if (!this.selectedItem) return;
+
+    this.fieldErrors = this.fieldSchema.validate(this.propertyForm);
+    if (Object.keys(this.fieldErrors).length > 0) return;
+
+    this.propertyErrors = this.findBlockingErrors(this.selectedItem, this.propertyForm);
+    if (this.propertyErrors.length > 0) return;
+
+    const before = this.snapshotItem(this.selectedItem);
+
+    let newPosition: Position = { 
+      x: this.selectedItem.position.x, 
+      y: this.selectedItem.position.y 
+    };
+
+    if (this.propertyForm.position && typeof this.propertyForm.position === 'object') {
+      const posX = Number(this.propertyForm.position.x);
+      const posY = Number(this.propertyForm.position.y);
+      if (!isNaN(posX) && !isNaN(posY)) {
+        newPosition = { x: posX, y: posY };
+      }
+    }
+
+    this.propertyForm.lastmodifiedby = 1;
+    this.propertyForm.lastmodifieddate = this.workflowService.getCurrentTimestamp();
+    
+    this.propertyForm.position = { x: newPosition.x, y: newPosition.y };
+    this.selectedItem.position = { x: newPosition.x, y: newPosition.y };
+    this.selectedItem.properties = { ...this.propertyForm };
+
+    if (this.propertyForm.name) {
+      this.selectedItem.label = this.propertyForm.name;
+    }
+
+    this.updateAllArrows();
+    this.updateWorkflowPosition(this.selectedItem);
+    this.saveCanvasState();
+
+    const itemId = this.selectedItem.id;
+    const after = this.snapshotItem(this.selectedItem);
+    this.history.record({
+      label: `Edit ${after.label}`,
+      undo: () => this.applyItemSnapshot(itemId, before),
+      redo: () => this.applyItemSnapshot(itemId, after)
+    });
+
+    this.closePropertyPanel();
+  }
+
+  runValidation(): void {
+    this.diagnostics = this.validator.validate(this.getCurrentRows(), this.toSavedState());
+  }
+
+  // The page's rows as currently edited on the canvas
+  private getCurrentRows(overrides?: { item: DraggableItem; properties: WorkflowProperties }): WorkflowProcessItem[] {
+    return this.items
+      .filter((item: DraggableItem) => !!item.workflowId && (item.type === 'action1' || item.type === 'action2'))
+      .map((item: DraggableItem) => {
+        const row = this.workflowData.find((w: WorkflowProcessItem) => w.id === item.workflowId);
+        const properties = overrides && overrides.item === item ? overrides.properties : item.properties;
+        return {
+          ...row,
+          ...properties,
+          id: item.workflowId!,
+          name: properties?.name || item.label
+        } as WorkflowProcessItem;
+      });
+  }
+
+  /**
+   * Hard errors the workflow would have with these properties saved. Any of
+   * them blocks the save, except that an edit which removes errors without
+   * adding one may go through, so a broken workflow can be repaired step by step.
+   */
+  private findBlockingErrors(item: DraggableItem, properties: WorkflowProperties): WorkflowDiagnostic[] {
+    if (!item.workflowId) return [];
+
+    const isError = (d: WorkflowDiagnostic) => d.severity === 'error';
+    const key = (d: WorkflowDiagnostic) => `${d.code}|${d.message}`;
+    const proposed = this.validator.validate(this.getCurrentRows({ item, properties }), this.toSavedState());
+    if (!this.validator.hasErrors(proposed)) return [];
+
+    const current = this.validator.validate(this.getCurrentRows(), this.toSavedState()).filter(isError);
+    const currentKeys = new Set(current.map(key));
+    const errors = proposed.filter(isError);
+    const repairs = errors.length < current.length && errors.every((d: WorkflowDiagnostic) => currentKeys.has(key(d)));
+    return repairs ? [] : errors;
+  }
+
+  // Reload after an import; an import into another page opens that page
+  onWorkflowImported(target: WorkflowPageRef): void {
+    if (this.page && this.workflowService.isSamePage(target, this.page)) {
+      this.openPage(this.page);
+      return;
+    }
+    this.transferOpen = false;
+    this.router.navigate([
+      '/projects', target.project_id,
+      'modules', target.logical_module_id,
+      'pages', target.page_id,
+      'workflow'
+    ]);
+  }
+
+  toggleArrangeMenu(): void {
+    if (this.arrangeMenuOpen) {
+      this.closeArrange();
+    } else {
+      this.arrangeMenuOpen = true;
+      this.previewArrange(this.arrangeDirection);
+    }
+  }
+
+  /** Shows where auto-arrange would put every node without moving anything yet. */
+  previewArrange(direction: LayoutDirection): void {
+    this.arrangeDirection = direction;
+    if (this.items.length === 0) {
+      this.arrangePreview = null;
+      return;
+    }
+
+    const positions = this.getArrangePositions(direction);
+    const ghosts = new Map<number, DraggableItem>();
+    this.items.forEach((item: DraggableItem) => {
+      ghosts.set(item.id, { ...item, position: positions.get(item.id) || item.position });
+    });
+
+    this.arrangePreview = {
+      items: [...ghosts.values()],
+      paths: this.arrows.map((arrow: Arrow) => this.calculateArrowPath(ghosts.get(arrow.from.id)!, ghosts.get(arrow.to.id)!))
+    };
+  }
+
+  applyArrange(): void {
+    if (!this.arrangePreview) return;
+
+    // Laid out again so that edits made while previewing are included
+    const after = this.getArrangePositions(this.arrangeDirection);
+    const before = new Map<number, Position>();
+    this.items.forEach((item: DraggableItem) => before.set(item.id, { ...item.position }));
+
+    this.closeArrange();
+    this.setItemPositions(after);
+    this.history.record({
+      label: 'Auto-arrange',
+      undo: () => this.setItemPositions(before),
+      redo: () => this.setItemPositions(after)
+    });
+  }
+
+  closeArrange(): void {
+    this.arrangeMenuOpen = false;
+    this.arrangePreview = null;
+  }
+
+  private getArrangePositions(direction: LayoutDirection): Map<number, Position> {
+    // Keep the arranged diagram where the current one starts
+    const bounds = this.getContentBounds();
+    return this.layoutService.layout(this.items, this.toSavedState().arrows, {
+      direction,
+      origin: bounds ? { x: bounds.left, y: bounds.top } : undefined
+    });
+  }
+
+  downloadDiagram(format: DiagramFormat): void {
+    if (!this.page || this.items.length === 0 || this.diagramExporting) return;
+
+    const nodes: DiagramNode[] = this.items.map((item: DraggableItem) => ({
+      type: item.type,
+      label: item.label,
+      caption: this.getItemCaption(item) || undefined,
+      position: item.position
+    }));
+    const edges: DiagramEdge[] = this.arrows.map((arrow: Arrow) => ({
+      path: arrow.path,
+      dashed: !!arrow.strokeDasharray
+    }));
+
+    const page = this.page;
+    const title = `Workflow – project ${page.project_id}, module ${page.logical_module_id}, page ${page.page_id}`;
+    const fileName = `workflow-${this.workflowService.getCanvasStateId(page)}.${format}`;
+    const image = this.diagramExport.buildSvg(nodes, edges, title);
+
+    const blob = format === 'svg'
+      ? Promise.resolve(this.diagramExport.toSvgBlob(image))
+      : format === 'png'
+        ? this.diagramExport.toPngBlob(image)
+        : this.diagramExport.toPdfBlob(image, title);
+
+    this.diagramExporting = true;
+    blob
+      .then((result: Blob) => this.diagramExport.download(result, fileName))
+      .catch((error: any) => console.error('Error exporting diagram:', error))
+      .finally(() => this.diagramExporting = false);
+  }
+
+  toggleSimulation(): void {
+    if (this.simulationOpen) {
+      this.closeSimulation();
+      return;
+    }
+
+    const rows = this.getCurrentRows();
+    this.simulationStatuses = this.simulator.getStartStatuses(rows);
+    this.simulationAccessLevels = this.simulator.getAccessLevels(rows);
+    if (!this.simulationStatuses.includes(this.simulationStartStatus)) {
+      this.simulationStartStatus = this.simulationStatuses[0] || '';
+    }
+    if (!this.simulationAccessLevels.includes(this.simulationAccessLevel)) {
+      this.simulationAccessLevel = this.simulationAccessLevels[0] ?? 1;
+    }
+    this.simulation = null;
+    this.simulationOpen = true;
+  }
+
+  closeSimulation(): void {
+    this.simulationOpen = false;
+    this.simulation = null;
+  }
+
+  /** Runs against the canvas as edited, so unsaved property changes are simulated too */
+  startSimulation(): void {
+    if (!this.simulationStartStatus) return;
+    this.simulation = this.simulator.start(this.getCurrentRows(), this.simulationStartStatus, this.simulationAccessLevel);
+  }
+
+  stepSimulation(decision: StepDecision): void {
+    if (!this.simulation) return;
+    this.simulation = this.simulator.advance(this.getCurrentRows(), this.simulation, decision);
+  }
+
+  onSimulationAccessLevelChange(): void {
+    if (!this.simulation) return;
+    this.simulation = this.simulator.setAccessLevel(this.simulation, this.simulationAccessLevel);
+  }
+
+  canSimulationReject(): boolean {
+    const step = this.getSimulationStep();
+    return !!step && this.simulator.canReject(step);
+  }
+
+  getSimulationStep(): WorkflowProcessItem | null {
+    if (!this.simulation?.activeWorkflowId) return null;
+    return this.getCurrentRows().find((row: WorkflowProcessItem) => row.id === this.simulation!.activeWorkflowId) || null;
+  }
+
+  isSimulationActive(item: DraggableItem): boolean {
+    return !!this.simulation && !!item.workflowId && item.workflowId === this.simulation.activeWorkflowId;
+  }
+
+  getItemSeverity(item: DraggableItem): 'error' | 'warning' | null {
+    if (!item.workflowId) return null;
+
+    const related = this.diagnostics.filter((d: WorkflowDiagnostic) => d.workflowIds.includes(item.workflowId!));
+    if (related.some((d: WorkflowDiagnostic) => d.severity === 'error')) return 'error';
+    return related.length > 0 ? 'warning' : null;
+  }
+
+  // Action and access level of a step, shown under its node
+  getItemCaption(item: DraggableItem): string {
+    if (!item.properties || (item.type !== 'action1' && item.type !== 'action2')) return '';
+
+    return [
+      this.workflowService.getLookupName(this.lookups.workflowActions, item.properties.work_flow_action_id),
+      this.workflowService.getLookupName(this.lookups.accessLevels, item.properties.work_flow_access_level_id)
+    ].filter((part: string) => part.length > 0).join(' · ');
+  }
+
+  getItemTooltip(item: DraggableItem): string {
+    const lines: string[] = [];
+    const props = item.properties;
+
+    if (props && (item.type === 'action1' || item.type === 'action2')) {
+      const property = this.workflowService.getLookupName(this.lookups.propertyNames, props.output_property_name_id);
+      lines.push(`${property || 'Property'}: ${props.input_property_value || '?'} → ${props.output_property_value || '?'}`);
+
+      if (props.output_property_reject_value) {
+        const rejectAction = this.workflowService.getLookupName(this.lookups.workflowActions, props.reject_action_id);
+        lines.push(`${rejectAction || 'Reject'} → ${props.output_property_reject_value}`);
+      }
+    }
+
+    const diagnostics = this.getItemDiagnostics(item);
+    if (diagnostics) lines.push(diagnostics);
+    return lines.join('\n');
+  }
+
+  getLookupOptions(field: WorkflowFieldSchema): WorkflowLookup[] {
+    return field.lookup ? this.lookups[field.lookup] : [];
+  }
+
+  getAccessLevelName(id: number): string {
+    return this.workflowService.getLookupName(this.lookups.accessLevels, id);
+  }
+
+  getItemDiagnostics(item: DraggableItem): string {
+    if (!item.workflowId) return '';
+
+    return this.diagnostics
+      .filter((d: WorkflowDiagnostic) => d.workflowIds.includes(item.workflowId!))
+      .map((d: WorkflowDiagnostic) => d.message)
+      .join('\n');
+  }
+
+  isArrowFlagged(arrow: Arrow): boolean {
+    return this.diagnostics.some((d: WorkflowDiagnostic) =>
+      !!d.arrow && d.arrow.fromId === arrow.from.id && d.arrow.toId === arrow.to.id
+    );
+  }
+
+  getErrorCount(): number {
+    return this.diagnostics.filter((d: WorkflowDiagnostic) => d.severity === 'error').length;
+  }
+
+  getWarningCount(): number {
+    return this.diagnostics.filter((d: WorkflowDiagnostic) => d.severity === 'warning').length;
+  }
+
+  focusDiagnostic(diagnostic: WorkflowDiagnostic): void {
+    const item = this.items.find((i: DraggableItem) => !!i.workflowId && diagnostic.workflowIds.includes(i.workflowId));
+    if (item) {
+      this.onItemClick(item);
+    }
+  }
+
+  private snapshotItem(item: DraggableItem): ItemSnapshot {
+    return this.cloneData({
+      label: item.label,
+      position: item.position,
+      properties: item.properties
+    });
+  }
+
+  private applyItemSnapshot(itemId: number, snapshot: ItemSnapshot): void {
+    const item = this.items.find((i: DraggableItem) => i.id === itemId);
+    if (!item) return;
+
+    const copy = this.cloneData(snapshot);
+    item.label = copy.label;
+    item.position = copy.position;
+    item.properties = copy.properties;
+
+    if (this.selectedItem === item) {
+      this.propertyForm = { ...item.properties } as WorkflowProperties;
+    }
+
+    this.updateAllArrows();
+    this.updateWorkflowPosition(item);
+    this.saveCanvasState();
+  }
+
+  cancelProperties(): void {
+    this.closePropertyPanel();
+  }
+
+  private startDragging(item: DraggableItem, event: MouseEvent): void {
+    this.draggedItem = item;
+    this.isDragging = false;
+
+    if (item.type === 'action2') {
+      this.linkedButtons = this.items.filter(i => 
+        (i.type === 'continue' || i.type === 'reject') &&
+        this.arrows.some(arrow => arrow.from.id === item.id && arrow.to.id === i.id)
+      );
+    } else {
+      this.linkedButtons = [];
+    }
+
+    this.dragStartPositions = new Map<number, Position>();
+    [item, ...this.linkedButtons].forEach((dragged: DraggableItem) => {
+      this.dragStartPositions.set(dragged.id, { ...dragged.position });
+    });
+
+    const point = this.clientToCanvas(event.clientX, event.clientY);
+    if (!point) return;
+
+    this.offset = {
+      x: point.x - item.position.x,
+      y: point.y - item.position.y
+    };
+
+    const moveHandler = (e: MouseEvent) => this.onMouseMove(e);
+    const upHandler = () => {
+      this.onMouseUp();
+      document.removeEventListener('mousemove', moveHandler);
+      document.removeEventListener('mouseup', upHandler);
+    };
+
+    document.addEventListener('mousemove', moveHandler);
+    document.addEventListener('mouseup', upHandler);
+  }
+
+  private onMouseMove(event: MouseEvent): void {
+    if (!this.draggedItem) return;
+
+    if (!this.isDragging) {
+      this.isDragging = true;
+      if (this.clickTimeout) {
+        clearTimeout(this.clickTimeout);
+        this.clickTimeout = null;
+      }
+    }
+
+    event.preventDefault();
+
+    const point = this.clientToCanvas(event.clientX, event.clientY);
+    if (!point) return;
+
+    const moving = [this.draggedItem, ...this.linkedButtons];
+    const { position, guides } = this.alignToNeighbours(
+      this.snapPosition({ x: Math.max(0, point.x - this.offset.x), y: Math.max(0, point.y - this.offset.y) }),
+      moving
+    );
+    this.alignmentGuides = guides;
+    const newX = position.x;
+    const newY = position.y;
+
+    const deltaX = newX - this.draggedItem.position.x;
+    const deltaY = newY - this.draggedItem.position.y;
+
+    this.draggedItem.position = { x: newX, y: newY };
+
+    if (this.draggedItem.properties) {
+      this.draggedItem.properties.position = { x: newX, y: newY };
+    }
+
+    for (const linkedBtn of this.linkedButtons) {
+      linkedBtn.position.x += deltaX;
+      linkedBtn.position.y += deltaY;
+      
+      if (linkedBtn.properties) {
+        linkedBtn.properties.position = { x: linkedBtn.position.x, y: linkedBtn.position.y };
+      }
+    }
+
+    this.updateAllArrows();
+  }
+
+  private onMouseUp(): void {
+    const movedIds = new Set<number>();
+    if (this.isDragging && this.draggedItem) {
+      [this.draggedItem, ...this.linkedButtons].forEach((moved: DraggableItem) => movedIds.add(moved.id));
+      this.autoSavePosition(this.draggedItem);
+      
+      for (const linkedBtn of this.linkedButtons) {
+        if (linkedBtn.workflowId) {
+          this.autoSavePosition(linkedBtn);
+        }
+      }
+
+      const before = this.dragStartPositions;
+      const after = new Map<number, Position>();
+      [this.draggedItem, ...this.linkedButtons].forEach((moved: DraggableItem) => {
+        after.set(moved.id, { ...moved.position });
+      });
+      this.history.record({
+        label: `Move ${this.draggedItem.label}`,
+        undo: () => this.setItemPositions(before),
+        redo: () => this.setItemPositions(after)
+      });
+    }
+    this.dragStartPositions = new Map<number, Position>();
+    this.alignmentGuides = [];
+
+    this.isDragging = false;
+    this.draggedItem = null;
+    this.linkedButtons = [];
+    this.flushRemoteChanges(movedIds);
+  }
+
+  setPreference<K extends keyof CanvasPreferences>(key: K, value: CanvasPreferences[K]): void {
+    this.preferences = { ...this.preferences, [key]: value };
+    this.saveCanvasState();
+  }
+
+  getGridBackgroundSize(): string | null {
+    if (!this.preferences.showGrid) return null;
+    return `${this.preferences.gridSize}px ${this.preferences.gridSize}px`;
+  }
+
+  /** Rounds to whole pixels, or to the grid when snapping is on. */
+  private snapPosition(position: Position): Position {
+    const step = this.preferences.snapToGrid ? this.preferences.gridSize : 1;
+    return {
+      x: Math.round(position.x / step) * step,
+      y: Math.round(position.y / step) * step
+    };
+  }
+
+  /**
+   * Pulls a dragged node onto the left, centre or right (top, middle or
+   * bottom) line of a nearby node and returns the guides to draw.
+   */
+  private alignToNeighbours(position: Position, moving: DraggableItem[]): { position: Position; guides: AlignmentGuide[] } {
+    const movingIds = new Set(moving.map((item: DraggableItem) => item.id));
+    const others = this.items.filter((item: DraggableItem) => !movingIds.has(item.id));
+    const threshold = this.GUIDE_THRESHOLD / this.zoom;
+    const lines = (start: number, size: number) => [start, start + size / 2, start + size];
+
+    const match = (own: number[], theirs: (item: DraggableItem) => number[]) => {
+      let best: { delta: number; line: number } | null = null;
+      for (const other of others) {
+        for (const line of theirs(other)) {
+          for (const ownLine of own) {
+            const delta = line - ownLine;
+            if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+              best = { delta, line };
+            }
+          }
+        }
+      }
+      return best;
+    };
+
+    const matchX = match(lines(position.x, this.NODE_WIDTH), (item: DraggableItem) => lines(item.position.x, this.NODE_WIDTH));
+    const matchY = match(lines(position.y, this.NODE_HEIGHT), (item: DraggableItem) => lines(item.position.y, this.NODE_HEIGHT));
+    const aligned = {
+      x: position.x + (matchX ? matchX.delta : 0),
+      y: position.y + (matchY ? matchY.delta : 0)
+    };
+
+    const guides: AlignmentGuide[] = [];
+    if (matchX) {
+      const linedUp = others.filter((item: DraggableItem) => lines(item.position.x, this.NODE_WIDTH).includes(matchX.line));
+      const tops = [aligned.y, ...linedUp.map((item: DraggableItem) => item.position.y)];
+      guides.push({ x1: matchX.line, y1: Math.min(...tops), x2: matchX.line, y2: Math.max(...tops) + this.NODE_HEIGHT });
+    }
+    if (matchY) {
+      const linedUp = others.filter((item: DraggableItem) => lines(item.position.y, this.NODE_HEIGHT).includes(matchY.line));
+      const lefts = [aligned.x, ...linedUp.map((item: DraggableItem) => item.position.x)];
+      guides.push({ x1: Math.min(...lefts), y1: matchY.line, x2: Math.max(...lefts) + this.NODE_WIDTH, y2: matchY.line });
+    }
+
+    return { position: aligned, guides };
+  }
+
+  isMultiSelected(item: DraggableItem): boolean {
+    return this.selectedIds.size > 1 && this.selectedIds.has(item.id);
+  }
+
+  clearSelection(): void {
+    this.selectedIds = new Set<number>();
+  }
+
+  private toggleSelected(item: DraggableItem): void {
+    const selected = new Set(this.selectedIds);
+    // Shift-clicking after a plain click keeps the node already open
+    if (selected.size === 0 && this.selectedItem) {
+      selected.add(this.selectedItem.id);
+    }
+
+    if (selected.has(item.id)) {
+      selected.delete(item.id);
+    } else {
+      selected.add(item.id);
+    }
+
+    this.selectedIds = selected;
+    if (selected.size > 1 && this.propertyPanelOpen) {
+      this.closePropertyPanel();
+    }
+  }
+
+  private getSelectedItems(): DraggableItem[] {
+    return this.items.filter((item: DraggableItem) => this.selectedIds.has(item.id));
+  }
+
+  alignSelection(mode: AlignMode): void {
+    const selected = this.getSelectedItems();
+    if (selected.length < 2) return;
+
+    const left = Math.min(...selected.map((item: DraggableItem) => item.position.x));
+    const right = Math.max(...selected.map((item: DraggableItem) => item.position.x + this.NODE_WIDTH));
+    const top = Math.min(...selected.map((item: DraggableItem) => item.position.y));
+
+    const targets = new Map<number, Position>();
+    selected.forEach((item: DraggableItem) => {
+      if (mode === 'left') {
+        targets.set(item.id, { x: left, y: item.position.y });
+      } else if (mode === 'center') {
+        targets.set(item.id, { x: Math.round((left + right - this.NODE_WIDTH) / 2), y: item.position.y });
+      } else {
+        targets.set(item.id, { x: item.position.x, y: top });
+      }
+    });
+
+    this.moveSelection(targets, `Align ${mode}`);
+  }
+
+  distributeSelection(axis: DistributeAxis): void {
+    const selected = this.getSelectedItems();
+    if (selected.length < 3) return;
+
+    const key: keyof Position = axis === 'horizontal' ? 'x' : 'y';
+    const sorted = [...selected].sort((a: DraggableItem, b: DraggableItem) => a.position[key] - b.position[key]);
+    const first = sorted[0].position[key];
+    const step = (sorted[sorted.length - 1].position[key] - first) / (sorted.length - 1);
+
+    const targets = new Map<number, Position>();
+    sorted.forEach((item: DraggableItem, index: number) => {
+      targets.set(item.id, { ...item.position, [key]: Math.round(first + step * index) });
+    });
+
+    this.moveSelection(targets, `Distribute ${axis}ly`);
+  }
+
+  // An Action 2 takes its Continue/Reject nodes along unless they are selected too
+  private moveSelection(targets: Map<number, Position>, label: string): void {
+    const after = new Map<number, Position>();
+    targets.forEach((target: Position, itemId: number) => {
+      const item = this.items.find((i: DraggableItem) => i.id === itemId);
+      if (!item) return;
+
+      after.set(itemId, target);
+      if (item.type === 'action2') {
+        const deltaX = target.x - item.position.x;
+        const deltaY = target.y - item.position.y;
+        this.getBranchNodes(item)
+          .filter((branch: DraggableItem) => !targets.has(branch.id))
+          .forEach((branch: DraggableItem) => {
+            after.set(branch.id, { x: branch.position.x + deltaX, y: branch.position.y + deltaY });
+          });
+      }
+    });
+
+    const before = new Map<number, Position>();
+    after.forEach((_: Position, itemId: number) => {
+      const item = this.items.find((i: DraggableItem) => i.id === itemId)!;
+      before.set(itemId, { ...item.position });
+    });
+
+    this.setItemPositions(after);
+    this.history.record({
+      label,
+      undo: () => this.setItemPositions(before),
+      redo: () => this.setItemPositions(after)
+    });
+  }
+
+  private setItemPositions(positions: Map<number, Position>): void {
+    positions.forEach((position: Position, itemId: number) => {
+      const item = this.items.find((i: DraggableItem) => i.id === itemId);
+      if (!item) return;
+
+      item.position = { x: position.x, y: position.y };
+      if (item.properties) {
+        item.properties.position = { x: position.x, y: position.y };
+      }
+      if (item.workflowId) {
+        this.updateWorkflowPosition(item);
+      }
+    });
+
+    this.updateAllArrows();
+    this.saveCanvasState();
+  }
+
+  private createArrow(from: DraggableItem, to: DraggableItem): void {
+    const isDottedLine = from.type === 'action2' && (to.type === 'continue' || to.type === 'reject');
+    
+    this.arrows.push({ 
+      from, 
+      to, 
+      path: '',
+      strokeDasharray: isDottedLine ? '4,8' : undefined
+    });
+  }
+
+  @HostListener('document:keydown', ['$event'])
+  onKeyDown(event: KeyboardEvent): void {
+    const target = event.target as HTMLElement | null;
+    if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+    const ctrl = event.ctrlKey || event.metaKey;
+
+    if (ctrl && event.key.toLowerCase() === 'z') {
+      event.preventDefault();
+      if (event.shiftKey) {
+        this.redo();
+      } else {
+        this.undo();
+      }
+    } else if (ctrl && event.key.toLowerCase() === 'y') {
+      event.preventDefault();
+      this.redo();
+    } else if (event.key === 'Delete' || event.key === 'Backspace') {
+      if (this.selectedArrow || this.selectedItem) {
+        event.preventDefault();
+        this.deleteSelection();
+      }
+    } else if (event.key === 'Escape') {
+      this.selectedArrow = null;
+      this.selectedIds = new Set<number>();
+    } else if (ctrl && event.key.toLowerCase() === 'c') {
+      this.copySelectedItem();
+    } else if (ctrl && event.key.toLowerCase() === 'x') {
+      this.cutSelectedItem();
+    } else if (ctrl && event.key.toLowerCase() === 'v') {
+      event.preventDefault();
+      this.pasteItem();
+    } else if (ctrl && event.key.toLowerCase() === 'd') {
+      event.preventDefault();
+      this.duplicateSelectedItem();
+    } else if (ctrl && (event.key === '=' || event.key === '+')) {
+      event.preventDefault();
+      this.zoomIn();
+    } else if (ctrl && event.key === '-') {
+      event.preventDefault();
+      this.zoomOut();
+    } else if (ctrl && event.key === '0') {
+      event.preventDefault();
+      this.resetZoom();
+    } else if (event.key === ' ') {
+      // Space held down turns a left-drag into a pan
+      event.preventDefault();
+      this.panReady = true;
+    }
+  }
+
+  @HostListener('document:keyup', ['$event'])
+  onKeyUp(event: KeyboardEvent): void {
+    if (event.key === ' ') {
+      this.panReady = false;
+    }
+  }
+
+  @HostListener('window:blur')
+  onWindowBlur(): void {
+    this.panReady = false;
+  }
+
+  deleteSelection(): void {
+    if (this.selectedArrow) {
+      this.deleteSelectedArrow();
+    } else if (this.selectedItem) {
+      this.deleteItem(this.selectedItem);
+    }
+  }
+
+  canDeleteSelection(): boolean {
+    if (this.selectedArrow) return !this.isBranchArrow(this.selectedArrow);
+    return !!this.selectedItem;
+  }
+
+  undo(): void {
+    const command = this.history.undo();
+    if (command) console.log('Undo:', command.label);
+  }
+
+  redo(): void {
+    const command = this.history.redo();
+    if (command) console.log('Redo:', command.label);
+  }
+
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  getUndoLabel(): string {
+    return this.history.getUndoLabel() || '';
+  }
+
+  getRedoLabel(): string {
+    return this.history.getRedoLabel() || '';
+  }
+
+  deleteItem(item: DraggableItem): void {
+    const step = this.getStepNode(item);
+    if (!step) return;
+
+    const stepId = step.id;
+    let snapshot = this.removeStepGroup(stepId);
+    if (!snapshot) return;
+
+    this.history.record({
+      label: `Delete ${snapshot.items[0].label}`,
+      undo: () => this.restoreStepGroup(snapshot!),
+      redo: () => {
+        snapshot = this.removeStepGroup(stepId) || snapshot;
+      }
+    });
+  }
+
+  /**
+   * Removes a step from the canvas and from workflowProcess. Continue/Reject
+   * nodes are removed with their Action 2, and the remaining steps are
+   * renumbered so that sequence values stay contiguous. Returns what was
+   * removed so that it can be restored.
+   */
+  private removeStepGroup(stepId: number): StepSnapshot | null {
+    const step = this.items.find((i: DraggableItem) => i.id === stepId);
+    if (!step) return null;
+
+    const group = [step, ...this.getBranchNodes(step)];
+    const groupIds = new Set(group.map((i: DraggableItem) => i.id));
+    const snapshot: StepSnapshot = this.cloneData({
+      items: group,
+      arrows: this.toSavedState().arrows.filter((arrow: ArrowData) => groupIds.has(arrow.fromId) || groupIds.has(arrow.toId))
+    });
+
+    const removedArrows = this.arrows.filter((arrow: Arrow) => groupIds.has(arrow.from.id) || groupIds.has(arrow.to.id));
+    this.items = this.items.filter((i: DraggableItem) => !groupIds.has(i.id));
+    this.arrows = this.arrows.filter((arrow: Arrow) => !removedArrows.includes(arrow));
+
+    if (this.selectedArrow && !this.arrows.includes(this.selectedArrow)) {
+      this.selectedArrow = null;
+    }
+    if (this.selectedItem && groupIds.has(this.selectedItem.id)) {
+      this.closePropertyPanel();
+    }
+
+    if (step.workflowId && this.isBrowser) {
+      this.deleteStepRow(step.workflowId);
+    }
+
+    this.clearRejectValues(removedArrows).forEach((source: DraggableItem) => this.updateWorkflowPosition(source));
+    this.resequenceSteps();
+    this.lastCreatedItem = this.findFlowTail();
+    this.updateAllArrows();
+    this.saveCanvasState();
+
+    return snapshot;
+  }
+
+  private deleteStepRow(workflowId: string): void {
+    const page = this.page;
+    this.workflowService.deleteWorkflowProcess(workflowId)
+      .subscribe({
+        next: () => {
+          this.workflowData = this.workflowData.filter((w: WorkflowProcessItem) => w.id !== workflowId);
+          this.lastWorkflowDataHash = JSON.stringify(this.workflowData);
+          console.log(`Workflow item ${workflowId} deleted`);
+        },
+        error: (error: any) => {
+          if (page !== this.page) return;
+          this.notifications.error(error, () => {
+            if (page === this.page) this.deleteStepRow(workflowId);
+          });
+        }
+      });
+  }
+
+  // Puts a removed step back at its old sequence, with a freshly created row
+  private restoreStepGroup(snapshot: StepSnapshot): void {
+    const group = this.cloneData(snapshot.items);
+    const step = group[0];
+    delete step.workflowId;
+
+    const sequence = step.properties?.sequence || this.sequenceCounter;
+    this.items
+      .filter((i: DraggableItem) => (i.type === 'action1' || i.type === 'action2') && (i.properties?.sequence || 0) >= sequence)
+      .forEach((i: DraggableItem) => {
+        i.properties!.sequence = (i.properties!.sequence || 0) + 1;
+        this.updateWorkflowPosition(i);
+      });
+
+    this.items.push(...group);
+    snapshot.arrows.forEach((arrowData: ArrowData) => {
+      const from = this.items.find((i: DraggableItem) => i.id === arrowData.fromId);
+      const to = this.items.find((i: DraggableItem) => i.id === arrowData.toId);
+      if (from && to) {
+        this.createArrow(from, to);
+      }
+
+      // Another step rejected into this one; deleting it cleared that reject value
+      const source = from?.type === 'reject' ? this.getStepNode(from) : null;
+      const rejectValue = to?.properties?.input_property_value || null;
+      if (source?.properties && source !== step && rejectValue && source.properties.output_property_reject_value !== rejectValue) {
+        source.properties.output_property_reject_value = rejectValue;
+        this.updateWorkflowPosition(source);
+      }
+    });
+
+    this.nextId = Math.max(this.nextId, ...group.map((i: DraggableItem) => i.id + 1));
+    this.lastCreatedItem = this.findFlowTail();
+    this.updateSequenceCounter();
+    this.updateAllArrows();
+    this.persistNewStep(step);
+  }
+
+  private cloneData<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  copySelectedItem(): void {
+    const step = this.selectedItem ? this.getStepNode(this.selectedItem) : null;
+    if (!step || !step.properties || (step.type !== 'action1' && step.type !== 'action2')) return;
+
+    this.clipboard = {
+      type: step.type,
+      label: step.label,
+      properties: { ...step.properties, position: { ...step.position } },
+      pasteCount: 0
+    };
+  }
+
+  cutSelectedItem(): void {
+    const step = this.selectedItem ? this.getStepNode(this.selectedItem) : null;
+    if (!step) return;
+
+    this.copySelectedItem();
+    this.deleteItem(step);
+  }
+
+  pasteItem(): void {
+    if (!this.clipboard) return;
+
+    this.clipboard.pasteCount++;
+    const offset = this.PASTE_OFFSET * this.clipboard.pasteCount;
+    const source = this.clipboard.properties.position;
+
+    this.createStep(
+      this.clipboard.type,
+      this.clipboard.label,
+      this.clipboard.properties,
+      { x: source.x + offset, y: source.y + offset }
+    );
+  }
+
+  duplicateSelectedItem(): void {
+    const step = this.selectedItem ? this.getStepNode(this.selectedItem) : null;
+    if (!step || !step.properties || (step.type !== 'action1' && step.type !== 'action2')) return;
+
+    this.createStep(
+      step.type,
+      step.label,
+      step.properties,
+      { x: step.position.x + this.PASTE_OFFSET, y: step.position.y + this.PASTE_OFFSET }
+    );
+  }
+
+  /**
+   * Adds a step node (with Continue/Reject for an Action 2) straight away and
+   * creates its backing workflowProcess row for the current page. The node is
+   * linked to the row id once the server has assigned it, and removed again if
+   * the row could not be created.
+   */
+  private createStep(
+    type: 'action1' | 'action2',
+    label: string,
+    properties: WorkflowProperties,
+    position: Position,
+    connectFrom: DraggableItem | null = null
+  ): void {
+    if (!this.isBrowser || !this.page) return;
+
+    const sequence = this.sequenceCounter++;
+    const stepProperties: WorkflowProperties = {
+      ...properties,
+      sequence,
+      name: properties.name || label,
+      createdby: 1,
+      createddate: this.workflowService.getCurrentTimestamp(),
+      lastmodifiedby: null,
+      lastmodifieddate: null,
+      position: { x: position.x, y: position.y }
+    };
+
+    const newItem: DraggableItem = {
+      id: this.nextId++,
+      label: stepProperties.name || label,
+      position: { x: position.x, y: position.y },
+      type,
+      properties: stepProperties
+    };
+    this.items.push(newItem);
+
+    if (connectFrom) {
+      this.createArrow(connectFrom, newItem);
+    }
+
+    let branches: DraggableItem[] = [];
+    if (type === 'action2') {
+      branches = this.workflowService.createBranchNodes(newItem, this.nextId);
+      this.nextId += branches.length;
+      this.items.push(...branches);
+      branches.forEach((branch: DraggableItem) => this.createArrow(newItem, branch));
+    }
+
+    this.lastCreatedItem = branches.length > 0 ? branches[0] : newItem;
+    this.updateAllArrows();
+    this.onItemClick(newItem);
+    this.persistNewStep(newItem);
+
+    const stepId = newItem.id;
+    let snapshot: StepSnapshot | null = null;
+    this.history.record({
+      label: `Add ${newItem.label}`,
+      undo: () => {
+        snapshot = this.removeStepGroup(stepId);
+      },
+      redo: () => {
+        if (snapshot) this.restoreStepGroup(snapshot);
+      }
+    });
+  }
+
+  // Creates the workflowProcess row behind a step node and links the node to it
+  private persistNewStep(item: DraggableItem): void {
+    if (!this.page) return;
+
+    const rowData: Partial<WorkflowProcessItem> = {
+      ...item.properties,
+      project_id: this.page.project_id,
+      logical_module_id: this.page.logical_module_id,
+      page_id: this.page.page_id
+    };
+    delete rowData['id'];
+    const createdSnapshot = JSON.stringify(item.properties);
+
+    this.pendingCreates++;
+    this.workflowService.createWorkflowProcess(rowData)
+      .subscribe({
+        next: (row: WorkflowProcessItem) => {
+          this.pendingCreates--;
+
+          // Deleted before the server answered
+          if (!this.items.includes(item)) {
+            this.workflowService.deleteWorkflowProcess(row.id).subscribe();
+            return;
+          }
+
+          item.workflowId = row.id;
+          this.workflowData = [...this.workflowData, row];
+          this.lastWorkflowDataHash = JSON.stringify(this.workflowData);
+          console.log(`Workflow item ${row.id} created for ${item.label}`);
+
+          // The node may have been moved or edited while the row was being created
+          if (JSON.stringify(item.properties) !== createdSnapshot) {
+            this.updateWorkflowPosition(item);
+          }
+          this.saveCanvasState();
+        },
+        error: (error: any) => {
+          this.pendingCreates--;
+          this.removeUnsavedStep(item);
+          this.notifications.error(error);
+        }
+      });
+  }
+
+  private removeUnsavedStep(item: DraggableItem): void {
+    const groupIds = new Set([item, ...this.getBranchNodes(item)].map((i: DraggableItem) => i.id));
+
+    this.items = this.items.filter((i: DraggableItem) => !groupIds.has(i.id));
+    this.arrows = this.arrows.filter((arrow: Arrow) => !groupIds.has(arrow.from.id) && !groupIds.has(arrow.to.id));
+    if (this.selectedItem && groupIds.has(this.selectedItem.id)) {
+      this.closePropertyPanel();
+    }
+
+    this.lastCreatedItem = this.findFlowTail();
+    this.updateSequenceCounter();
+    this.updateAllArrows();
+  }
+
+  private resequenceSteps(): void {
+    const steps = this.items
+      .filter((i: DraggableItem) => i.type === 'action1' || i.type === 'action2')
+      .sort((a: DraggableItem, b: DraggableItem) => (a.properties?.sequence || 0) - (b.properties?.sequence || 0));
+
+    steps.forEach((step: DraggableItem, index: number) => {
+      if (step.properties && step.properties.sequence !== index + 1) {
+        step.properties.sequence = index + 1;
+        this.updateWorkflowPosition(step);
+      }
+    });
+
+    this.updateSequenceCounter();
+  }
+
+  // Continue/Reject nodes stand for the Action 2 they belong to
+  private getStepNode(item: DraggableItem): DraggableItem | null {
+    if (item.type === 'action1' || item.type === 'action2') return item;
+
+    const parentArrow = this.arrows.find((arrow: Arrow) => arrow.to.id === item.id && arrow.from.type === 'action2');
+    return parentArrow ? parentArrow.from : null;
+  }
+
+  private getBranchNodes(item: DraggableItem): DraggableItem[] {
+    return this.workflowService.getBranchNodes(item, this.items, this.toSavedState().arrows);
+  }
+
+  onCanvasMouseDown(event: MouseEvent): void {
+    if (event.target === event.currentTarget) {
+      this.selectedArrow = null;
+      this.selectedIds = new Set<number>();
+    }
+  }
+
+  canStartConnection(item: DraggableItem): boolean {
+    // An Action 2 hands the flow on through its Continue and Reject nodes
+    return item.type !== 'action2';
+  }
+
+  isBranchArrow(arrow: Arrow): boolean {
+    return arrow.from.type === 'action2' && (arrow.to.type === 'continue' || arrow.to.type === 'reject');
+  }
+
+  onArrowMouseDown(event: MouseEvent, arrow: Arrow): void {
+    event.preventDefault();
+    event.stopPropagation();
+    this.selectedArrow = arrow;
+  }
+
+  onPortMouseDown(event: MouseEvent, item: DraggableItem): void {
+    event.preventDefault();
+    event.stopPropagation();
+    this.startConnection(item, null);
+  }
+
+  onArrowHandleMouseDown(event: MouseEvent, arrow: Arrow): void {
+    event.preventDefault();
+    event.stopPropagation();
+    this.startConnection(arrow.from, arrow);
+  }
+
+  getArrowEndPoint(arrow: Arrow): Position {
+    const coords = arrow.path.split(' ').pop()?.split(',') || [];
+    return { x: Number(coords[0]) || 0, y: Number(coords[1]) || 0 };
+  }
+
+  private startConnection(from: DraggableItem, retarget: Arrow | null): void {
+    this.connectionDrag = { from, retarget };
+
+    const moveHandler = (e: MouseEvent) => this.onConnectionMove(e);
+    const upHandler = (e: MouseEvent) => {
+      this.onConnectionEnd(e);
+      this.flushRemoteChanges(new Set<number>());
+      document.removeEventListener('mousemove', moveHandler);
+      document.removeEventListener('mouseup', upHandler);
     };
 
-    this.items.push(newItem);
+    document.addEventListener('mousemove', moveHandler);
+    document.addEventListener('mouseup', upHandler);
+  }
 
-    if (this.lastCreatedItem) {
-      this.createArrow(this.lastCreatedItem, newItem);
-    }
+  private onConnectionMove(event: MouseEvent): void {
+    if (!this.connectionDrag) return;
 
-    this.linkedButtons = [];
+    const point = this.clientToCanvas(event.clientX, event.clientY);
+    if (!point) return;
 
-    if (this.toolbarDragLabel === 'Action 2') {
-      const continuePos: Position = { x: newItem.position.x + 240, y: newItem.position.y - 70 };
-      const rejectPos: Position = { x: newItem.position.x + 240, y: newItem.position.y + 70 };
+    const from = this.connectionDrag.from;
+    const startX = from.position.x + this.NODE_WIDTH;
+    const startY = from.position.y + this.NODE_HEIGHT / 2;
+    const distance = Math.sqrt(Math.pow(point.x - startX, 2) + Math.pow(point.y - startY, 2));
 
-      const continueBtn: DraggableItem = {
-        id: this.nextId++,
-        label: 'Continue',
-        position: { x: continuePos.x, y: continuePos.y },
-        type: 'continue',
-        properties: this.getDefaultProperties('Continue', continuePos)
-      };
+    this.connectionPreviewPath = this.createSmoothBezierPath(
+      startX, startY, 'right',
+      point.x, point.y, point.x >= startX ? 'left' : 'right',
+      distance
+    );
+  }
 
-      const rejectBtn: DraggableItem = {
-        id: this.nextId++,
-        label: 'Reject',
-        position: { x: rejectPos.x, y: rejectPos.y },
-        type: 'reject',
-        properties: { position: { x: rejectPos.x, y: rejectPos.y } }
-      };
+  private onConnectionEnd(event: MouseEvent): void {
+    const drag = this.connectionDrag;
+    this.connectionDrag = null;
+    this.connectionPreviewPath = null;
+    if (!drag) return;
 
-      this.items.push(continueBtn, rejectBtn);
+    const point = this.clientToCanvas(event.clientX, event.clientY);
+    const target = point ? this.findItemAt(point) : null;
+    if (!target || !this.canConnect(drag.from, target, drag.retarget)) return;
 
-      this.createArrow(newItem, continueBtn);
-      this.createArrow(newItem, rejectBtn);
+    const before = this.toSavedState().arrows;
 
-      this.linkedButtons = [continueBtn, rejectBtn];
-      this.lastCreatedItem = continueBtn;
+    if (drag.retarget) {
+      drag.retarget.to = target;
     } else {
-      this.lastCreatedItem = newItem;
+      this.createArrow(drag.from, target);
+      this.selectedArrow = this.arrows[this.arrows.length - 1];
     }
 
     this.updateAllArrows();
     this.saveCanvasState();
+    this.applyConnectionsToProcess();
+    this.recordArrowChange(drag.retarget ? 'Reconnect arrow' : 'Add arrow', before);
   }
 
-  toggleSidenav(): void {
-    this.isExpanded = !this.isExpanded;
-    setTimeout(() => this.updateAllArrows(), 320);
+  private canConnect(from: DraggableItem, to: DraggableItem, retarget: Arrow | null): boolean {
+    if (from.id === to.id) return false;
+    if (to.type === 'continue' || to.type === 'reject') return false;
+
+    return !this.arrows.some((arrow: Arrow) =>
+      arrow !== retarget && arrow.from.id === from.id && arrow.to.id === to.id
+    );
   }
 
-  private getDefaultProperties(label: string, position: Position): WorkflowProperties {
-    const matchingData = this.workflowData.find((w: WorkflowProcessItem) => w.sequence === this.sequenceCounter);
-    
-    if (matchingData) {
-      const props = this.workflowService.createPropertiesFromWorkflow(matchingData, position);
-      this.sequenceCounter++;
-      return props;
-    }
+  deleteSelectedArrow(): void {
+    const arrow = this.selectedArrow;
+    if (!arrow || this.isBranchArrow(arrow)) return;
+
+    const before = this.toSavedState().arrows;
 
-    return this.workflowService.generateDefaultProperties(label, position, this.sequenceCounter++);
+    this.arrows = this.arrows.filter((a: Arrow) => a !== arrow);
+    this.selectedArrow = null;
+    this.lastCreatedItem = this.findFlowTail();
+
+    this.saveCanvasState();
+    this.applyConnectionsToProcess([arrow]);
+    this.recordArrowChange('Delete arrow', before);
   }
 
-  onMouseDown(event: MouseEvent, item: DraggableItem): void {
-    event.preventDefault();
-    
-    if (this.clickTimeout) {
-      clearTimeout(this.clickTimeout);
-      this.clickTimeout = null;
-    }
+  private recordArrowChange(label: string, before: ArrowData[]): void {
+    const after = this.toSavedState().arrows;
+    this.history.record({
+      label,
+      undo: () => this.setArrows(before),
+      redo: () => this.setArrows(after)
+    });
+  }
 
-    this.clickTimeout = setTimeout(() => {
-      if (!this.isDragging) {
-        this.onItemClick(item);
+  private setArrows(arrowData: ArrowData[]): void {
+    const previous = this.arrows;
+    this.arrows = [];
+    this.selectedArrow = null;
+
+    arrowData.forEach((data: ArrowData) => {
+      const from = this.items.find((i: DraggableItem) => i.id === data.fromId);
+      const to = this.items.find((i: DraggableItem) => i.id === data.toId);
+      if (from && to) {
+        this.createArrow(from, to);
       }
-      this.clickTimeout = null;
-    }, 200);
+    });
 
-    this.startDragging(item, event);
+    this.lastCreatedItem = this.findFlowTail();
+    this.updateAllArrows();
+    this.saveCanvasState();
+    this.applyConnectionsToProcess(previous.filter((arrow: Arrow) =>
+      !this.arrows.some((a: Arrow) => a.from.id === arrow.from.id && a.to.id === arrow.to.id)
+    ));
   }
 
-  onItemClick(item: DraggableItem): void {
-    if (item.type === 'reject') return;
+  /**
+   * Writes the drawn connections back to the workflowProcess rows: steps are
+   * renumbered in the order the arrows visit them, and an arrow leaving a
+   * Reject node makes its Action 2 reject to the target step's input value.
+   * Removing the last such arrow clears the reject value again.
+   */
+  private applyConnectionsToProcess(removed: Arrow[] = []): void {
+    const steps = this.items.filter((i: DraggableItem) => i.type === 'action1' || i.type === 'action2');
+    const successors = new Map<number, DraggableItem[]>();
+    const incoming = new Map<number, number>();
+    steps.forEach((step: DraggableItem) => {
+      successors.set(step.id, []);
+      incoming.set(step.id, 0);
+    });
 
-    this.selectedItem = item;
-    this.propertyForm = { ...item.properties } as WorkflowProperties;
-    this.propertyPanelOpen = true;
-  }
+    const changed = new Set<DraggableItem>(this.clearRejectValues(removed));
 
-  closePropertyPanel(): void {
-    this.propertyPanelOpen = false;
-    this.selectedItem = null;
-    this.propertyForm = { position: { x: 0, y: 0 } };
+    this.arrows.forEach((arrow: Arrow) => {
+      if (this.isBranchArrow(arrow) || !successors.has(arrow.to.id)) return;
+
+      const source = this.getStepNode(arrow.from);
+      if (!source || source.id === arrow.to.id) return;
+
+      if (arrow.from.type === 'reject') {
+        const rejectValue = arrow.to.properties?.input_property_value || null;
+        if (source.properties && rejectValue && source.properties.output_property_reject_value !== rejectValue) {
+          source.properties.output_property_reject_value = rejectValue;
+          changed.add(source);
+        }
+        return;
+      }
+
+      successors.get(source.id)!.push(arrow.to);
+      incoming.set(arrow.to.id, incoming.get(arrow.to.id)! + 1);
+    });
+
+    const bySequence = (a: DraggableItem, b: DraggableItem) =>
+      (a.properties?.sequence || 0) - (b.properties?.sequence || 0);
+    const ready = steps.filter((step: DraggableItem) => incoming.get(step.id) === 0).sort(bySequence);
+    const ordered: DraggableItem[] = [];
+
+    while (ready.length > 0) {
+      const step = ready.shift()!;
+      ordered.push(step);
+      successors.get(step.id)!.forEach((next: DraggableItem) => {
+        incoming.set(next.id, incoming.get(next.id)! - 1);
+        if (incoming.get(next.id) === 0) {
+          ready.push(next);
+          ready.sort(bySequence);
+        }
+      });
+    }
+
+    // Steps caught in a cycle keep their relative order at the end
+    steps.filter((step: DraggableItem) => !ordered.includes(step)).sort(bySequence)
+      .forEach((step: DraggableItem) => ordered.push(step));
+
+    ordered.forEach((step: DraggableItem, index: number) => {
+      if (step.properties && step.properties.sequence !== index + 1) {
+        step.properties.sequence = index + 1;
+        changed.add(step);
+      }
+    });
+
+    changed.forEach((step: DraggableItem) => this.updateWorkflowPosition(step));
+    this.updateSequenceCounter();
   }
 
-  saveProperties(): void {
-    if (!this.selectedItem) return;
+  // Steps whose Reject node lost its last outgoing arrow; their reject value no longer leads anywhere on the canvas
+  private clearRejectValues(removed: Arrow[]): DraggableItem[] {
+    const cleared: DraggableItem[] = [];
 
-    let newPosition: Position = { 
-      x: this.selectedItem.position.x, 
-      y: this.selectedItem.position.y 
-    };
+    removed.filter((arrow: Arrow) => arrow.from.type === 'reject').forEach((arrow: Arrow) => {
+      const source = this.getStepNode(arrow.from);
+      if (!source?.properties || !this.items.includes(source) || cleared.includes(source)) return;
+      if (source.properties.output_property_reject_value == null) return;
 
-    if (this.propertyForm.position && typeof this.propertyForm.position === 'object') {
-      const posX = Number(this.propertyForm.position.x);
-      const posY = Number(this.propertyForm.position.y);
-      if (!isNaN(posX) && !isNaN(posY)) {
-        newPosition = { x: posX, y: posY };
+      const stillConnected = this.arrows.some((other: Arrow) => other.from.id === arrow.from.id);
+      if (!stillConnected) {
+        source.properties.output_property_reject_value = null;
+        cleared.push(source);
       }
-    }
+    });
 
-    this.propertyForm.lastmodifiedby = 1;
-    this.propertyForm.lastmodifieddate = this.workflowService.getCurrentTimestamp();
-    
-    this.propertyForm.position = { x: newPosition.x, y: newPosition.y };
-    this.selectedItem.position = { x: newPosition.x, y: newPosition.y };
-    this.selectedItem.properties = { ...this.propertyForm };
+    return cleared;
+  }
 
-    if (this.propertyForm.name) {
-      this.selectedItem.label = this.propertyForm.name;
+  private findItemAt(point: Position): DraggableItem | null {
+    for (let i = this.items.length - 1; i >= 0; i--) {
+      const item = this.items[i];
+      if (point.x >= item.position.x && point.x <= item.position.x + this.NODE_WIDTH &&
+          point.y >= item.position.y && point.y <= item.position.y + this.NODE_HEIGHT) {
+        return item;
+      }
     }
+    return null;
+  }
 
-    this.updateAllArrows();
-    this.updateWorkflowPosition(this.selectedItem);
-    this.saveCanvasState();
-    this.closePropertyPanel();
+  private clientToCanvas(clientX: number, clientY: number): Position | null {
+    const canvas = this.scrollContainerRef?.nativeElement.querySelector('.canvas') as HTMLElement | null;
+    if (!canvas) return null;
+
+    // The canvas is scaled from its top-left corner, so its rect already
+    // reflects both scroll and zoom
+    const canvasRect = canvas.getBoundingClientRect();
+    return {
+      x: (clientX - canvasRect.left) / this.zoom,
+      y: (clientY - canvasRect.top) / this.zoom
+    };
   }
 
-  cancelProperties(): void {
-    this.closePropertyPanel();
+  zoomIn(): void {
+    this.setZoom(this.zoom * this.ZOOM_STEP);
   }
 
-  private startDragging(item: DraggableItem, event: MouseEvent): void {
-    this.draggedItem = item;
-    this.isDragging = false;
+  zoomOut(): void {
+    this.setZoom(this.zoom / this.ZOOM_STEP);
+  }
 
-    if (item.type === 'action2') {
-      this.linkedButtons = this.items.filter(i => 
-        (i.type === 'continue' || i.type === 'reject') &&
-        this.arrows.some(arrow => arrow.from.id === item.id && arrow.to.id === i.id)
-      );
-    } else {
-      this.linkedButtons = [];
+  resetZoom(): void {
+    this.setZoom(1);
+  }
+
+  getZoomPercent(): number {
+    return Math.round(this.zoom * 100);
+  }
+
+  fitToContent(): void {
+    const scrollEl = this.scrollContainerRef?.nativeElement;
+    const bounds = this.getContentBounds();
+    if (!scrollEl || !bounds) {
+      this.resetZoom();
+      return;
     }
 
+    const width = bounds.right - bounds.left + this.FIT_PADDING * 2;
+    const height = bounds.bottom - bounds.top + this.FIT_PADDING * 2;
+    // Never blow a small workflow up past 100%
+    this.zoom = this.clampZoom(Math.min(scrollEl.clientWidth / width, scrollEl.clientHeight / height, 1));
+    this.changeDetector.detectChanges();
+
+    this.centerOn({ x: (bounds.left + bounds.right) / 2, y: (bounds.top + bounds.bottom) / 2 });
+  }
+
+  onMinimapNavigate(point: Position): void {
+    this.centerOn(point);
+  }
+
+  @HostListener('window:resize')
+  updateMinimapViewport(): void {
     const scrollEl = this.scrollContainerRef?.nativeElement;
     if (!scrollEl) return;
 
-    const canvas = scrollEl.querySelector('.canvas') as HTMLElement;
-    if (!canvas) return;
-
-    const canvasRect = canvas.getBoundingClientRect();
-    this.canvasOffset = {
-      left: canvasRect.left,
-      top: canvasRect.top
+    this.minimapViewport = {
+      x: scrollEl.scrollLeft / this.zoom,
+      y: scrollEl.scrollTop / this.zoom,
+      width: scrollEl.clientWidth / this.zoom,
+      height: scrollEl.clientHeight / this.zoom
     };
+  }
 
-    this.scrollAtDragStart = {
-      left: scrollEl.scrollLeft,
-      top: scrollEl.scrollTop
-    };
+  private centerOn(point: Position): void {
+    const scrollEl = this.scrollContainerRef?.nativeElement;
+    if (!scrollEl) return;
 
-    const mouseXInCanvas = event.clientX - canvasRect.left + scrollEl.scrollLeft;
-    const mouseYInCanvas = event.clientY - canvasRect.top + scrollEl.scrollTop;
+    scrollEl.scrollLeft = point.x * this.zoom - scrollEl.clientWidth / 2;
+    scrollEl.scrollTop = point.y * this.zoom - scrollEl.clientHeight / 2;
+    this.updateMinimapViewport();
+  }
 
-    this.offset = {
-      x: mouseXInCanvas - item.position.x,
-      y: mouseYInCanvas - item.position.y
-    };
+  /** Zooms while keeping the canvas point under `anchor` (client coordinates) in place. */
+  private setZoom(zoom: number, anchor?: Position): void {
+    const next = this.clampZoom(zoom);
+    const scrollEl = this.scrollContainerRef?.nativeElement;
+    if (!scrollEl) {
+      this.zoom = next;
+      return;
+    }
 
-    const moveHandler = (e: MouseEvent) => this.onMouseMove(e);
-    const upHandler = () => {
-      this.onMouseUp();
-      document.removeEventListener('mousemove', moveHandler);
-      document.removeEventListener('mouseup', upHandler);
-    };
+    const viewportRect = scrollEl.getBoundingClientRect();
+    const anchorX = anchor ? anchor.x - viewportRect.left : scrollEl.clientWidth / 2;
+    const anchorY = anchor ? anchor.y - viewportRect.top : scrollEl.clientHeight / 2;
+    const canvasX = (scrollEl.scrollLeft + anchorX) / this.zoom;
+    const canvasY = (scrollEl.scrollTop + anchorY) / this.zoom;
 
-    document.addEventListener('mousemove', moveHandler);
-    document.addEventListener('mouseup', upHandler);
+    this.zoom = next;
+    // The scaled canvas has to be laid out before the scroll position can follow
+    this.changeDetector.detectChanges();
+
+    scrollEl.scrollLeft = canvasX * next - anchorX;
+    scrollEl.scrollTop = canvasY * next - anchorY;
+    this.updateMinimapViewport();
   }
 
-  private onMouseMove(event: MouseEvent): void {
-    if (!this.draggedItem || !this.canvasOffset || !this.scrollAtDragStart) return;
+  private clampZoom(zoom: number): number {
+    return Math.min(this.MAX_ZOOM, Math.max(this.MIN_ZOOM, Math.round(zoom * 100) / 100));
+  }
 
-    if (!this.isDragging) {
-      this.isDragging = true;
-      if (this.clickTimeout) {
-        clearTimeout(this.clickTimeout);
-        this.clickTimeout = null;
-      }
-    }
+  private onViewportWheel(event: WheelEvent): void {
+    if (!event.ctrlKey && !event.metaKey) return;
 
     event.preventDefault();
+    const factor = event.deltaY < 0 ? this.ZOOM_STEP : 1 / this.ZOOM_STEP;
+    this.setZoom(this.zoom * factor, { x: event.clientX, y: event.clientY });
+  }
 
+  private onViewportMouseDown(event: MouseEvent): void {
     const scrollEl = this.scrollContainerRef?.nativeElement;
     if (!scrollEl) return;
-    const currentScrollLeft = scrollEl.scrollLeft;
-    const currentScrollTop  = scrollEl.scrollTop;
-
-    const newX = event.clientX - this.canvasOffset.left - this.offset.x
-               + (currentScrollLeft - this.scrollAtDragStart.left);
+    if (event.button !== 1 && !(event.button === 0 && this.panReady)) return;
 
-    const newY = event.clientY - this.canvasOffset.top - this.offset.y
-               + (currentScrollTop - this.scrollAtDragStart.top);
-
-    const deltaX = newX - this.draggedItem.position.x;
-    const deltaY = newY - this.draggedItem.position.y;
-
-    this.draggedItem.position = { x: newX, y: newY };
+    event.preventDefault();
+    event.stopPropagation();
 
-    if (this.draggedItem.properties) {
-      this.draggedItem.properties.position = { x: newX, y: newY };
-    }
+    this.isPanning = true;
+    this.panStart = {
+      x: event.clientX,
+      y: event.clientY,
+      left: scrollEl.scrollLeft,
+      top: scrollEl.scrollTop
+    };
 
-    for (const linkedBtn of this.linkedButtons) {
-      linkedBtn.position.x += deltaX;
-      linkedBtn.position.y += deltaY;
-      
-      if (linkedBtn.properties) {
-        linkedBtn.properties.position = { x: linkedBtn.position.x, y: linkedBtn.position.y };
-      }
-    }
+    const moveHandler = (e: MouseEvent) => {
+      if (!this.panStart) return;
+      scrollEl.scrollLeft = this.panStart.left - (e.clientX - this.panStart.x);
+      scrollEl.scrollTop = this.panStart.top - (e.clientY - this.panStart.y);
+    };
+    const upHandler = () => {
+      this.isPanning = false;
+      this.panStart = null;
+      document.removeEventListener('mousemove', moveHandler);
+      document.removeEventListener('mouseup', upHandler);
+    };
 
-    this.updateAllArrows();
+    document.addEventListener('mousemove', moveHandler);
+    document.addEventListener('mouseup', upHandler);
   }
 
-  private onMouseUp(): void {
-    if (this.isDragging && this.draggedItem) {
-      this.autoSavePosition(this.draggedItem);
-      
-      for (const linkedBtn of this.linkedButtons) {
-        if (linkedBtn.workflowId) {
-          this.autoSavePosition(linkedBtn);
-        }
-      }
-    }
-
-    this.canvasOffset = null;
-    this.scrollAtDragStart = null;
+  private getContentBounds(): { left: number; top: number; right: number; bottom: number } | null {
+    if (this.items.length === 0) return null;
 
-    this.isDragging = false;
-    this.draggedItem = null;
-    this.linkedButtons = [];
+    return {
+      left: Math.min(...this.items.map((item: DraggableItem) => item.position.x)),
+      top: Math.min(...this.items.map((item: DraggableItem) => item.position.y)),
+      right: Math.max(...this.items.map((item: DraggableItem) => item.position.x + this.NODE_WIDTH)),
+      bottom: Math.max(...this.items.map((item: DraggableItem) => item.position.y + this.NODE_HEIGHT))
+    };
   }
 
-  private createArrow(from: DraggableItem, to: DraggableItem): void {
-    const isDottedLine = from.type === 'action2' && (to.type === 'continue' || to.type === 'reject');
-    
-    this.arrows.push({ 
-      from, 
-      to, 
-      path: '',
-      strokeDasharray: isDottedLine ? '4,8' : undefined
-    });
+  /** Keeps a margin of empty canvas past the right- and bottom-most nodes. */
+  private updateCanvasSize(): void {
+    const bounds = this.getContentBounds();
+    this.canvasWidth = Math.max(this.MIN_CANVAS_SIZE, Math.ceil((bounds?.right ?? 0) + this.CANVAS_MARGIN));
+    this.canvasHeight = Math.max(this.MIN_CANVAS_SIZE, Math.ceil((bounds?.bottom ?? 0) + this.CANVAS_MARGIN));
   }
 
   private updateAllArrows(): void {
+    this.updateCanvasSize();
     for (const arrow of this.arrows) {
       arrow.path = this.calculateArrowPath(arrow.from, arrow.to);
     }
@@ -828,23 +2709,43 @@ export class WorkstatusComponent implements OnInit, OnDestroy {
     return `M${startX},${startY} C${cp1X},${cp1Y} ${cp2X},${cp2Y} ${endX},${endY}`;
   }
 
+  /**
+   * Deletes every step on the page together with its workflowProcess row,
+   * so a reload does not bring them back and collaborators see the nodes go.
+   * Undo recreates the rows at their old sequence.
+   */
   clearCanvas(): void {
-    this.items = [];
-    this.arrows = [];
-    this.lastCreatedItem = null;
-    this.nextId = 1;
-    this.sequenceCounter = 1;
-    this.closePropertyPanel();
-    
-    if (this.isBrowser) {
-      this.workflowService.deleteCanvasState()
-        .subscribe({
-          next: (success: boolean) => {
-            if (success) console.log('Canvas state cleared');
-          },
-          error: (error: any) => console.error('Error clearing canvas state:', error)
-        });
+    let snapshots = this.removeAllSteps();
+
+    this.history.record({
+      label: 'Clear all',
+      // Restored last-removed first, so every group finds the arrows it points at
+      undo: () => [...snapshots].reverse().forEach((snapshot: StepSnapshot) => this.restoreStepGroup(snapshot)),
+      redo: () => {
+        snapshots = this.removeAllSteps();
+      }
+    });
+  }
+
+  private removeAllSteps(): StepSnapshot[] {
+    const snapshots = this.items
+      .filter((i: DraggableItem) => i.type === 'action1' || i.type === 'action2')
+      .sort((a: DraggableItem, b: DraggableItem) => (a.properties?.sequence || 0) - (b.properties?.sequence || 0))
+      .map((step: DraggableItem) => this.removeStepGroup(step.id))
+      .filter((snapshot: StepSnapshot | null): snapshot is StepSnapshot => !!snapshot);
+
+    // Continue/Reject nodes whose Action 2 was already gone
+    if (this.items.length > 0) {
+      this.items = [];
+      this.arrows = [];
+      this.selectedArrow = null;
+      this.lastCreatedItem = null;
+      this.closePropertyPanel();
+      this.saveCanvasState();
     }
+    this.sequenceCounter = 1;
+
+    return snapshots;
   }
 
   getIconName(type: string): string {
@@ -854,40 +2755,98 @@ export class WorkstatusComponent implements OnInit, OnDestroy {
     return 'help_outline';
   }
 
-  getPropertyKeys(): string[] {
-    return Object.keys(this.propertyForm).filter(key => 
-      !['id', 'project_id', 'logical_module_id', 'page_id', 'position'].includes(key)
-    );
+  getFieldGroups(): WorkflowFieldGroup[] {
+    return this.fieldSchema.getGroups(this.propertyForm);
   }
 
-  getPropertyValue(key: string): any {
-    return this.propertyForm[key as keyof WorkflowProperties];
+  getFieldValue(field: WorkflowFieldSchema): string {
+    return this.fieldSchema.format(field, this.propertyForm[field.key]);
   }
 
-  setPropertyValue(key: string, event: Event): void {
-    const target = event.target as HTMLInputElement;
-    
-    if (this.isNumberField(key)) {
-      const numValue = parseInt(target.value, 10);
-      this.propertyForm[key as keyof WorkflowProperties] = (isNaN(numValue) ? 0 : numValue) as any;
+  setFieldValue(field: WorkflowFieldSchema, event: Event): void {
+    this.applyFieldValue(field, this.fieldSchema.parse(field, (event.target as HTMLInputElement).value));
+  }
+
+  setLookupFieldValue(field: WorkflowFieldSchema, value: number | null): void {
+    this.applyFieldValue(field, value);
+  }
+
+  private applyFieldValue(field: WorkflowFieldSchema, value: any): void {
+    if (field.readOnly) return;
+
+    this.propertyForm[field.key] = value;
+
+    const { [field.key]: _previous, ...others } = this.fieldErrors;
+    const error = this.fieldSchema.validateField(field, value);
+    this.fieldErrors = error ? { ...others, [field.key]: error } : others;
+  }
+
+  getExecuteHandlerDefinitions(): ExecuteHandlerDefinition[] {
+    return this.executeHandlers.getHandlers();
+  }
+
+  getExecuteHandler(name: string): ExecuteHandlerDefinition | undefined {
+    return this.executeHandlers.getHandler(name);
+  }
+
+  // Handlers named in the form's execute field, in the order they run
+  getSelectedExecuteHandlers(): string[] {
+    return this.executeHandlers.parseExecute(this.propertyForm.execute);
+  }
+
+  isExecuteHandlerSelected(name: string): boolean {
+    return this.getSelectedExecuteHandlers().includes(name);
+  }
+
+  toggleExecuteHandler(name: string): void {
+    const selected = this.getSelectedExecuteHandlers();
+
+    if (selected.includes(name)) {
+      const config = { ...(this.propertyForm.execute_config || {}) };
+      delete config[name];
+      this.propertyForm.execute = this.executeHandlers.formatExecute(selected.filter((n: string) => n !== name));
+      this.propertyForm.execute_config = config;
     } else {
-      this.propertyForm[key as keyof WorkflowProperties] = target.value as any;
+      this.propertyForm.execute = this.executeHandlers.formatExecute([...selected, name]);
     }
   }
 
-  formatLabel(key: string): string {
-    return key.replace(/_/g, ' ');
+  moveExecuteHandler(name: string, delta: number): void {
+    const selected = this.getSelectedExecuteHandlers();
+    const from = selected.indexOf(name);
+    const to = from + delta;
+    if (from === -1 || to < 0 || to >= selected.length) return;
+
+    selected.splice(from, 1);
+    selected.splice(to, 0, name);
+    this.propertyForm.execute = this.executeHandlers.formatExecute(selected);
   }
 
-  isNumberField(key: string): boolean {
-    return key.includes('_id') || ['sequence', 'createdby', 'lastmodifiedby'].includes(key);
+  getExecuteConfigValue(name: string, field: ExecuteConfigField): any {
+    return this.executeHandlers.resolveConfig(name, this.propertyForm.execute_config)[field.key] ?? '';
   }
 
-  isDateField(key: string): boolean {
-    return key.includes('date');
+  setExecuteConfigValue(name: string, field: ExecuteConfigField, event: Event): void {
+    const target = event.target as HTMLInputElement;
+    let value: any = target.value;
+    if (field.type === 'boolean') {
+      value = target.checked;
+    } else if (field.type === 'number') {
+      value = target.value === '' ? null : Number(target.value);
+    }
+
+    // Replaced rather than mutated so Cancel leaves the item's saved config untouched
+    const config = this.propertyForm.execute_config || {};
+    this.propertyForm.execute_config = {
+      ...config,
+      [name]: { ...(config[name] || {}), [field.key]: value }
+    };
   }
 
-  isTextField(key: string): boolean {
-    return !this.isNumberField(key) && !this.isDateField(key);
+  getExecuteConfigErrors(name: string): string[] {
+    return this.executeHandlers.validateConfig(
+      name,
+      this.executeHandlers.resolveConfig(name, this.propertyForm.execute_config)
+    );
   }
 }
\ No newline at end of file
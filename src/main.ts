@@ -1,7 +1,11 @@
 import { platformBrowserDynamic } from '@angular/platform-browser-dynamic';
 
 import { AppModule } from './app/app.module';
+import { APP_CONFIG, AppConfig } from './app/app.config';
 
-
-platformBrowserDynamic().bootstrapModule(AppModule)
+// Read at startup rather than built in, so one build can point at any backend
+fetch('assets/config.json')
+  .then((response: Response) => response.ok ? response.json() : {})
+  .catch(() => ({}))
+  .then((config: AppConfig) => platformBrowserDynamic([{ provide: APP_CONFIG, useValue: config }]).bootstrapModule(AppModule))
   .catch(err => console.error(err));
@@ -0,0 +1,91 @@
+import express from 'express';
+import { WorkflowPageRef } from '../app/workflowservice.service';
+import { CollaborationEvent } from '../app/collaboration.service';
+import { CollaborationClient, CollaborationHub } from './collaborationhub';
+
+const PAGE_PATH = '/projects/:projectId/modules/:moduleId/pages/:pageId/collaboration';
+const HEARTBEAT_MS = 25000;
+
+/**
+ * Live editing endpoints for a page:
+ *   GET  .../collaboration/events?clientId=&name=   Server-Sent Events stream
+ *   POST .../collaboration/changes                   { clientId, token, changes }
+ *   POST .../collaboration/presence                  { clientId, token, selection }
+ *
+ * The token comes in the stream's welcome event, so only the holder of a
+ * connection can post as its client.
+ */
+export function collaborationApi(hub: CollaborationHub): express.Router {
+  const router = express.Router();
+  router.use(express.json());
+
+  router.get(`${PAGE_PATH}/events`, (req, res) => {
+    const page = toPage(req.params);
+    const clientId = typeof req.query['clientId'] === 'string' ? req.query['clientId'] : '';
+    const name = typeof req.query['name'] === 'string' && req.query['name'] ? req.query['name'] : 'Guest';
+    if (!clientId) {
+      res.status(400).json({ error: 'clientId is required' });
+      return;
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    res.flushHeaders();
+
+    const client: CollaborationClient = {
+      clientId,
+      name,
+      send: (event: CollaborationEvent) => res.write(`data: ${JSON.stringify(event)}\n\n`)
+    };
+    hub.join(page, client);
+
+    // Comments keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      hub.leave(page, client);
+    });
+  });
+
+  router.post(`${PAGE_PATH}/changes`, (req, res) => {
+    const changes = req.body?.changes;
+    if (!Array.isArray(changes)) {
+      res.status(400).json({ error: 'changes must be a list' });
+      return;
+    }
+
+    const revision = hub.publish(toPage(req.params), String(req.body?.clientId), String(req.body?.token), changes);
+    if (revision === null) {
+      res.status(409).json({ error: 'Client is not connected to this page' });
+      return;
+    }
+    res.json({ revision });
+  });
+
+  router.post(`${PAGE_PATH}/presence`, (req, res) => {
+    const selection = req.body?.selection;
+    if (selection !== null && typeof selection !== 'number') {
+      res.status(400).json({ error: 'selection must be a node id or null' });
+      return;
+    }
+
+    if (!hub.select(toPage(req.params), String(req.body?.clientId), String(req.body?.token), selection)) {
+      res.status(409).json({ error: 'Client is not connected to this page' });
+      return;
+    }
+    res.json({ ok: true });
+  });
+
+  return router;
+}
+
+function toPage(params: Record<string, string>): WorkflowPageRef {
+  return {
+    project_id: Number(params['projectId']),
+    logical_module_id: Number(params['moduleId']),
+    page_id: Number(params['pageId'])
+  };
+}
@@ -0,0 +1,95 @@
+import { CollaborationEvent } from '../app/collaboration.service';
+import { CollaborationClient, CollaborationHub } from './collaborationhub';
+
+describe('CollaborationHub', () => {
+  const page = { project_id: 1, logical_module_id: 10, page_id: 80 };
+  const otherPage = { project_id: 1, logical_module_id: 10, page_id: 81 };
+
+  let hub: CollaborationHub;
+  let received: Record<string, CollaborationEvent[]>;
+
+  // The token from the latest welcome the client received
+  const tokenOf = (clientId: string): string => {
+    const welcome = received[clientId].filter((event: CollaborationEvent) => event.type === 'welcome').pop();
+    return welcome?.type === 'welcome' ? welcome.token : '';
+  };
+
+  const connect = (clientId: string, target = page): CollaborationClient => {
+    received[clientId] = received[clientId] || [];
+    const client: CollaborationClient = {
+      clientId,
+      name: clientId.toUpperCase(),
+      send: (event: CollaborationEvent) => received[clientId].push(event)
+    };
+    hub.join(target, client);
+    return client;
+  };
+
+  beforeEach(() => {
+    hub = new CollaborationHub();
+    received = {};
+  });
+
+  it('should welcome a client with the people already on the page', () => {
+    connect('ann');
+    connect('bob');
+
+    const welcome = received['bob'][0];
+    expect(welcome.type).toBe('welcome');
+    expect(welcome.type === 'welcome' && welcome.presence.map(p => p.clientId)).toEqual(['ann', 'bob']);
+    expect(hub.getPresence(page).map(p => p.color)).toEqual(['#e91e63', '#ff9800']);
+  });
+
+  it('should send changes to everyone on the same page only', () => {
+    connect('ann');
+    connect('bob');
+    connect('cid', otherPage);
+
+    const revision = hub.publish(page, 'ann', tokenOf('ann'), [{ kind: 'node-removed', itemId: 4 }]);
+
+    expect(revision).toBe(1);
+    expect(received['bob'].pop()).toEqual({ type: 'changes', clientId: 'ann', revision: 1, changes: [{ kind: 'node-removed', itemId: 4 }] });
+    expect(received['cid'].some((event: CollaborationEvent) => event.type === 'changes')).toBeFalse();
+  });
+
+  it('should refuse changes from clients that are not connected', () => {
+    connect('ann');
+
+    expect(hub.publish(page, 'bob', tokenOf('ann'), [])).toBeNull();
+    expect(hub.select(page, 'bob', tokenOf('ann'), 3)).toBeFalse();
+  });
+
+  it('should refuse posts that do not carry the client\'s own token', () => {
+    connect('ann');
+    connect('bob');
+
+    expect(hub.publish(page, 'ann', tokenOf('bob'), [])).toBeNull();
+    expect(hub.select(page, 'ann', '', 3)).toBeFalse();
+    expect(hub.publish(page, 'ann', tokenOf('ann'), [])).toBe(1);
+  });
+
+  it('should share selections and drop clients that leave', () => {
+    connect('ann');
+    const bob = connect('bob');
+
+    hub.select(page, 'bob', tokenOf('bob'), 7);
+    expect(hub.getPresence(page).find(p => p.clientId === 'bob')?.selection).toBe(7);
+
+    hub.leave(page, bob);
+    const last = received['ann'][received['ann'].length - 1];
+    expect(last.type === 'presence' && last.presence.map(p => p.clientId)).toEqual(['ann']);
+    expect(hub.isConnected(page, 'bob')).toBeFalse();
+  });
+
+  it('should keep a reconnected client when its old stream closes late', () => {
+    const stale = connect('ann');
+    const staleToken = tokenOf('ann');
+    connect('ann');
+
+    hub.leave(page, stale);
+
+    expect(hub.isConnected(page, 'ann')).toBeTrue();
+    expect(hub.publish(page, 'ann', staleToken, [])).toBeNull();
+    expect(hub.publish(page, 'ann', tokenOf('ann'), [])).toBe(1);
+  });
+});
@@ -0,0 +1,119 @@
+import { WorkflowPageRef } from '../app/workflowservice.service';
+import { CollaborationChange, CollaborationEvent, CollaboratorPresence } from '../app/collaboration.service';
+
+export interface CollaborationClient {
+  clientId: string;
+  name: string;
+  send: (event: CollaborationEvent) => void;
+}
+
+interface ConnectedClient extends CollaborationClient {
+  // Handed out in the welcome event; changes and presence updates must carry it
+  token: string;
+  color: string;
+  selection: number | null;
+}
+
+interface Room {
+  revision: number;
+  clients: Map<string, ConnectedClient>;
+}
+
+const COLORS = ['#e91e63', '#ff9800', '#009688', '#673ab7', '#3f51b5', '#795548', '#8bc34a', '#00bcd4'];
+
+/**
+ * Fans canvas changes and presence out to everyone who has a page open.
+ * Rooms live in memory and disappear with their last client; the canvas
+ * itself is still stored through json-server.
+ */
+export class CollaborationHub {
+
+  private rooms = new Map<string, Room>();
+
+  join(page: WorkflowPageRef, client: CollaborationClient): void {
+    const room = this.getRoom(page, true)!;
+    const used = new Set([...room.clients.values()].map((other: ConnectedClient) => other.color));
+    const color = COLORS.find((candidate: string) => !used.has(candidate)) || COLORS[room.clients.size % COLORS.length];
+
+    const token = crypto.randomUUID();
+    room.clients.set(client.clientId, { ...client, token, color, selection: null });
+    client.send({ type: 'welcome', clientId: client.clientId, token, revision: room.revision, presence: this.getPresence(page) });
+    this.broadcastPresence(page);
+  }
+
+  /**
+   * Drops the connection `client` joined with. A reconnecting EventSource
+   * keeps its clientId, so the old stream may close after the new one has
+   * joined; that close must not take the new connection with it.
+   */
+  leave(page: WorkflowPageRef, client: CollaborationClient): void {
+    const room = this.getRoom(page);
+    if (!room || room.clients.get(client.clientId)?.send !== client.send) return;
+
+    room.clients.delete(client.clientId);
+    if (room.clients.size === 0) {
+      this.rooms.delete(this.getRoomKey(page));
+    } else {
+      this.broadcastPresence(page);
+    }
+  }
+
+  isConnected(page: WorkflowPageRef, clientId: string): boolean {
+    return !!this.getRoom(page)?.clients.has(clientId);
+  }
+
+  /** Stamps the changes with the next revision and sends them to the whole room, sender included. */
+  publish(page: WorkflowPageRef, clientId: string, token: string, changes: CollaborationChange[]): number | null {
+    const room = this.getRoom(page);
+    if (!room || !this.getClient(page, clientId, token)) return null;
+
+    room.revision++;
+    this.broadcast(room, { type: 'changes', clientId, revision: room.revision, changes });
+    return room.revision;
+  }
+
+  select(page: WorkflowPageRef, clientId: string, token: string, selection: number | null): boolean {
+    const client = this.getClient(page, clientId, token);
+    if (!client) return false;
+
+    client.selection = selection;
+    this.broadcastPresence(page);
+    return true;
+  }
+
+  getPresence(page: WorkflowPageRef): CollaboratorPresence[] {
+    const room = this.getRoom(page);
+    return room
+      ? [...room.clients.values()].map(({ clientId, name, color, selection }: ConnectedClient) => ({ clientId, name, color, selection }))
+      : [];
+  }
+
+  // The connected client, provided the token is the one its current connection was welcomed with
+  private getClient(page: WorkflowPageRef, clientId: string, token: string): ConnectedClient | undefined {
+    const client = this.getRoom(page)?.clients.get(clientId);
+    return client && client.token === token ? client : undefined;
+  }
+
+  private broadcastPresence(page: WorkflowPageRef): void {
+    const room = this.getRoom(page);
+    if (room) {
+      this.broadcast(room, { type: 'presence', presence: this.getPresence(page) });
+    }
+  }
+
+  private broadcast(room: Room, event: CollaborationEvent): void {
+    room.clients.forEach((client: ConnectedClient) => client.send(event));
+  }
+
+  private getRoom(page: WorkflowPageRef, create = false): Room | undefined {
+    const key = this.getRoomKey(page);
+    if (!this.rooms.has(key) && create) {
+      this.rooms.set(key, { revision: 0, clients: new Map<string, ConnectedClient>() });
+    }
+    return this.rooms.get(key);
+  }
+
+  private getRoomKey(page: WorkflowPageRef): string {
+    return `${page.project_id}-${page.logical_module_id}-${page.page_id}`;
+  }
+}
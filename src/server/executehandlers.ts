@@ -0,0 +1,102 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { LookupAddress, lookup } from 'node:dns';
+import { IncomingMessage, request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { LookupFunction } from 'node:net';
+import { EmailHandlerConfig, PostingHandlerConfig } from '../app/executehandler.service';
+import { ExecuteContext, ExecuteHandler, ExecuteHandlerRegistry, fillTemplate } from './executeregistry';
+import { WebhookRequest, WebhookTransport, createWebhookHandler, isPublicAddress } from './webhookhandler';
+
+async function appendLine(filePath: string, entry: object): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+  await appendFile(filePath, JSON.stringify(entry) + '\n', 'utf8');
+}
+
+/** Stands in for SMTP by appending each message to an outbox file */
+export function createEmailHandler(outboxPath: string): ExecuteHandler<EmailHandlerConfig> {
+  return {
+    name: 'email',
+    async run(context: ExecuteContext, config: EmailHandlerConfig): Promise<string> {
+      const to = config.to || 'step-assignees';
+      await appendLine(outboxPath, {
+        to,
+        subject: fillTemplate(config.subject, context),
+        body: fillTemplate(config.body, context),
+        instanceId: context.instance.id,
+        sentAt: new Date().toISOString()
+      });
+      return `Queued email to ${to}`;
+    }
+  };
+}
+
+export function createPostingHandler(ledgerPath: string): ExecuteHandler<PostingHandlerConfig> {
+  return {
+    name: 'posting',
+    async run(context: ExecuteContext, config: PostingHandlerConfig): Promise<string> {
+      const reference = fillTemplate(config.reference, context);
+      await appendLine(ledgerPath, {
+        account: config.account || null,
+        reference,
+        instanceId: context.instance.id,
+        propertyId: context.step['output_property_name_id'] ?? null,
+        value: context.toValue,
+        postedAt: new Date().toISOString()
+      });
+      return `Posted ${reference || context.toValue}`;
+    }
+  };
+}
+
+// Only WORKFLOW_SECRET_* variables can be named, so a step cannot send other server settings anywhere
+export function getEnvironmentSecret(name: string): string | undefined {
+  return /^\w+$/.test(name) ? process.env[`WORKFLOW_SECRET_${name.toUpperCase()}`] : undefined;
+}
+
+/**
+ * Sends webhooks over node's http(s). Every address a host name resolves to
+ * must be public, checked in the connection's own lookup so that the DNS
+ * answer cannot change between the check and the connect. Redirects are not
+ * followed, so a public endpoint cannot bounce the call somewhere private.
+ */
+export const sendWebhook: WebhookTransport = (webhook: WebhookRequest) => new Promise((resolve, reject) => {
+  const send = webhook.url.protocol === 'https:' ? httpsRequest : httpRequest;
+  const request = send(webhook.url, {
+    method: webhook.method,
+    headers: { ...webhook.headers, 'Content-Length': String(Buffer.byteLength(webhook.body)) },
+    lookup: publicLookup,
+    signal: webhook.signal
+  }, (response: IncomingMessage) => {
+    response.resume();
+    resolve(response.statusCode ?? 0);
+  });
+  request.on('error', reject);
+  request.end(webhook.body);
+});
+
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error: NodeJS.ErrnoException | null, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    const blocked = addresses.find((entry: LookupAddress) => !isPublicAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      callback(new Error(`Webhook host ${hostname} resolves to ${blocked?.address ?? 'nothing'}, which is not a public address`), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+export function createDefaultExecuteRegistry(outboxDir: string): ExecuteHandlerRegistry {
+  return new ExecuteHandlerRegistry()
+    .register(createEmailHandler(join(outboxDir, 'email.jsonl')))
+    .register(createPostingHandler(join(outboxDir, 'postings.jsonl')))
+    .register(createWebhookHandler(sendWebhook, getEnvironmentSecret));
+}
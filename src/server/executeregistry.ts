@@ -0,0 +1,89 @@
+import { WorkflowProcessItem } from '../app/workflowservice.service';
+import { StepDecision } from '../app/workflowsimulator.service';
+import { ExecutehandlerService } from '../app/executehandler.service';
+import { WorkflowInstance } from './workflowstore';
+
+export interface ExecuteContext {
+  instance: WorkflowInstance;
+  step: WorkflowProcessItem;
+  decision: StepDecision;
+  fromValue: string;
+  toValue: string;
+}
+
+export interface ExecuteResult {
+  handler: string;
+  status: 'ok' | 'failed' | 'skipped';
+  detail: string;
+}
+
+export interface ExecuteHandler<C = { [key: string]: any }> {
+  name: string;
+  run(context: ExecuteContext, config: C): Promise<string>;
+}
+
+/**
+ * Runs the handlers a step's `execute` field names, one after the other.
+ * A failing handler is recorded and does not stop the ones after it.
+ */
+export class ExecuteHandlerRegistry {
+  private handlers = new Map<string, ExecuteHandler<any>>();
+
+  constructor(private definitions: ExecutehandlerService = new ExecutehandlerService()) {}
+
+  register<C>(handler: ExecuteHandler<C>): this {
+    this.handlers.set(handler.name, handler);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.handlers.has(name);
+  }
+
+  // The designer's parser, so simulation and execution agree on which handlers a step names
+  parseExecute(execute: any): string[] {
+    return this.definitions.parseExecute(execute);
+  }
+
+  async run(names: string[], context: ExecuteContext): Promise<ExecuteResult[]> {
+    const results: ExecuteResult[] = [];
+
+    for (const name of names) {
+      results.push(await this.runOne(name, context));
+    }
+    return results;
+  }
+
+  private async runOne(name: string, context: ExecuteContext): Promise<ExecuteResult> {
+    const handler = this.handlers.get(name);
+    if (!handler) {
+      return { handler: name, status: 'skipped', detail: 'No handler is registered under this name' };
+    }
+
+    const config = this.definitions.resolveConfig(name, context.step['execute_config']);
+    const errors = this.definitions.validateConfig(name, config);
+    if (errors.length > 0) {
+      return { handler: name, status: 'failed', detail: errors.join(' ') };
+    }
+
+    try {
+      return { handler: name, status: 'ok', detail: await handler.run(context, config) };
+    } catch (error) {
+      return { handler: name, status: 'failed', detail: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+// Replaces {{toValue}}-style placeholders with values from the step being executed
+export function fillTemplate(template: string | undefined, context: ExecuteContext): string {
+  const values: { [key: string]: any } = {
+    stepName: context.step.name,
+    fromValue: context.fromValue,
+    toValue: context.toValue,
+    decision: context.decision,
+    instanceId: context.instance.id
+  };
+  return (template || '').replace(/\{\{\s*(\w+)\s*\}\}/g, (match: string, key: string) =>
+    values[key] !== undefined ? String(values[key]) : match
+  );
+}
@@ -0,0 +1,91 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { WorkflowPageRef, WorkflowProcessItem } from '../app/workflowservice.service';
+import {
+  WorkflowStore,
+  WorkflowInstance,
+  NewWorkflowInstance,
+  isOnPage,
+  nextInstanceId
+} from './workflowstore';
+
+interface WorkflowDatabase {
+  workflowProcess?: WorkflowProcessItem[];
+  workflowInstance?: WorkflowInstance[];
+  [collection: string]: any;
+}
+
+/**
+ * Reads the steps from the db.json json-server serves, and keeps instances
+ * in a file of their own. json-server holds its file in memory and writes it
+ * back whole, so writing instances into it would lose changes either way.
+ * Writes are queued so concurrent requests never interleave a
+ * read-modify-write of the instances file.
+ */
+export class JsonFileWorkflowStore implements WorkflowStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private processPath: string, private instancesPath: string) {}
+
+  async getWorkflowProcess(page: WorkflowPageRef): Promise<WorkflowProcessItem[]> {
+    const db: WorkflowDatabase = JSON.parse(await readFile(this.processPath, 'utf8'));
+    return (db.workflowProcess || []).filter((row: WorkflowProcessItem) => isOnPage(row, page));
+  }
+
+  async listInstances(page: WorkflowPageRef): Promise<WorkflowInstance[]> {
+    const db = await this.read();
+    return (db.workflowInstance || []).filter((instance: WorkflowInstance) => isOnPage(instance, page));
+  }
+
+  async getInstance(id: string): Promise<WorkflowInstance | null> {
+    const db = await this.read();
+    return (db.workflowInstance || []).find((instance: WorkflowInstance) => instance.id === id) || null;
+  }
+
+  createInstance(instance: NewWorkflowInstance): Promise<WorkflowInstance> {
+    return this.modify((db: WorkflowDatabase) => {
+      const instances = db.workflowInstance = db.workflowInstance || [];
+      const created: WorkflowInstance = { ...instance, id: nextInstanceId(instances) };
+      instances.push(created);
+      return created;
+    });
+  }
+
+  updateInstance(instance: WorkflowInstance): Promise<WorkflowInstance> {
+    return this.modify((db: WorkflowDatabase) => {
+      const instances = db.workflowInstance || [];
+      const index = instances.findIndex((i: WorkflowInstance) => i.id === instance.id);
+      if (index === -1) {
+        throw new Error(`Workflow instance ${instance.id} does not exist`);
+      }
+      instances[index] = instance;
+      return instance;
+    });
+  }
+
+  private async read(): Promise<WorkflowDatabase> {
+    // Let pending writes land first so reads see them
+    await this.queue.catch(() => undefined);
+    return this.readInstances();
+  }
+
+  private modify<T>(change: (db: WorkflowDatabase) => T): Promise<T> {
+    const run = this.queue.catch(() => undefined).then(async () => {
+      const db = await this.readInstances();
+      const result = change(db);
+      await writeFile(this.instancesPath, JSON.stringify(db, null, 2), 'utf8');
+      return result;
+    });
+    this.queue = run;
+    return run;
+  }
+
+  // The file is created by the first instance
+  private async readInstances(): Promise<WorkflowDatabase> {
+    try {
+      return JSON.parse(await readFile(this.instancesPath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { workflowInstance: [] };
+      throw error;
+    }
+  }
+}
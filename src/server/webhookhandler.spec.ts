@@ -0,0 +1,107 @@
+import { ExecuteContext } from './executeregistry';
+import { WebhookRequest, createWebhookHandler, isPublicAddress } from './webhookhandler';
+
+describe('createWebhookHandler', () => {
+  const context = {
+    instance: { id: 'i1' },
+    step: { id: '3' },
+    decision: 'continue',
+    fromValue: 'New',
+    toValue: 'Submitted'
+  } as unknown as ExecuteContext;
+
+  const secrets: { [name: string]: string } = { erp: 's3cret' };
+  const resolveSecret = (name: string) => secrets[name];
+
+  let sent: WebhookRequest[];
+  const respondWith = (status: number) => async (request: WebhookRequest) => {
+    sent.push(request);
+    return status;
+  };
+
+  beforeEach(() => {
+    sent = [];
+  });
+
+  it('should post the transition and report the response status', async () => {
+    const handler = createWebhookHandler(respondWith(204), resolveSecret);
+
+    const detail = await handler.run(context, { url: 'https://hooks.example.com/workflow' });
+
+    expect(detail).toBe('Webhook responded with 204');
+    expect(sent[0].method).toBe('POST');
+    expect(JSON.parse(sent[0].body)).toEqual({
+      instanceId: 'i1', workflowId: '3', decision: 'continue', fromValue: 'New', toValue: 'Submitted'
+    });
+  });
+
+  it('should fail on a non-2xx response', async () => {
+    const handler = createWebhookHandler(respondWith(500), resolveSecret);
+
+    await expectAsync(handler.run(context, { url: 'https://hooks.example.com/workflow' }))
+      .toBeRejectedWithError('Webhook responded with 500');
+  });
+
+  it('should give up on an endpoint that does not answer in time', async () => {
+    const hang = (request: WebhookRequest) => new Promise<number>((_resolve, reject) => {
+      request.signal.addEventListener('abort', () => reject(request.signal.reason));
+    });
+    const handler = createWebhookHandler(hang, resolveSecret, 20);
+
+    await expectAsync(handler.run(context, { url: 'https://hooks.example.com/slow' }))
+      .toBeRejectedWithError('Webhook did not respond within 0.02s');
+  });
+
+  it('should only call http(s) URLs', async () => {
+    const handler = createWebhookHandler(respondWith(200), resolveSecret);
+
+    await expectAsync(handler.run(context, { url: 'file:///etc/passwd' }))
+      .toBeRejectedWithError('Webhook URL must be http(s), not file:');
+    expect(sent).toEqual([]);
+  });
+
+  it('should refuse URLs that name a private address', async () => {
+    const handler = createWebhookHandler(respondWith(200), resolveSecret);
+    const urls = ['http://127.0.0.1:3000/', 'http://169.254.169.254/latest/meta-data', 'http://[::1]/', 'http://2130706433/'];
+
+    for (const url of urls) {
+      await expectAsync(handler.run(context, { url })).toBeRejectedWithError(/private address/);
+    }
+    expect(sent).toEqual([]);
+  });
+
+  it('should send the secret the step names from the server', async () => {
+    const handler = createWebhookHandler(respondWith(200), resolveSecret);
+
+    await handler.run(context, { url: 'https://hooks.example.com/workflow', secretName: 'erp' });
+
+    expect(sent[0].headers['X-Workflow-Secret']).toBe('s3cret');
+  });
+
+  it('should fail rather than call without a secret the server does not have', async () => {
+    const handler = createWebhookHandler(respondWith(200), resolveSecret);
+
+    await expectAsync(handler.run(context, { url: 'https://hooks.example.com/workflow', secretName: 'missing' }))
+      .toBeRejectedWithError('No secret named "missing" is configured on the server');
+    expect(sent).toEqual([]);
+  });
+});
+
+describe('isPublicAddress', () => {
+  it('should accept public addresses', () => {
+    ['93.184.216.34', '8.8.8.8', '2606:2800:220:1:248:1893:25c8:1946', '::ffff:93.184.216.34']
+      .forEach((address: string) => expect(isPublicAddress(address)).withContext(address).toBeTrue());
+  });
+
+  it('should reject loopback, private, link-local and reserved addresses', () => {
+    [
+      '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1',
+      '::', '::1', 'fd00::1', 'fe80::1%eth0', 'ff02::1', '::ffff:127.0.0.1', '::ffff:7f00:1', '64:ff9b::a9fe:a9fe'
+    ].forEach((address: string) => expect(isPublicAddress(address)).withContext(address).toBeFalse());
+  });
+
+  it('should reject anything that is not an IP address', () => {
+    ['localhost', 'example.com', '1.2.3', '1::2::3', '256.1.1.1']
+      .forEach((address: string) => expect(isPublicAddress(address)).withContext(address).toBeFalse());
+  });
+});
@@ -0,0 +1,152 @@
+import { WebhookHandlerConfig } from '../app/executehandler.service';
+import { ExecuteContext, ExecuteHandler } from './executeregistry';
+
+export interface WebhookRequest {
+  url: URL;
+  method: string;
+  headers: { [key: string]: string };
+  body: string;
+  signal: AbortSignal;
+}
+
+/** Sends a webhook and resolves with the response status; must give up when `signal` aborts. */
+export type WebhookTransport = (request: WebhookRequest) => Promise<number>;
+
+/**
+ * Calls a designer-supplied URL from the server, so only http(s) to public
+ * addresses is allowed: IP literals are checked here, host names by the
+ * transport once they resolve. A slow endpoint is given up on after
+ * `timeoutMs` rather than holding the instance action open. The secret
+ * header comes from `resolveSecret`, looked up by the name the step gives.
+ */
+export function createWebhookHandler(
+  send: WebhookTransport,
+  resolveSecret: (name: string) => string | undefined,
+  timeoutMs = 10000
+): ExecuteHandler<WebhookHandlerConfig> {
+  return {
+    name: 'webhook',
+    async run(context: ExecuteContext, config: WebhookHandlerConfig): Promise<string> {
+      const url = new URL(config.url);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error(`Webhook URL must be http(s), not ${url.protocol}`);
+      }
+      const host = url.hostname.replace(/^\[|\]$/g, '');
+      if (isIpAddress(host) && !isPublicAddress(host)) {
+        throw new Error(`Webhook URL must not point at a private address (${host})`);
+      }
+
+      const headers: { [key: string]: string } = { 'Content-Type': 'application/json' };
+      if (config.secretName) {
+        const secret = resolveSecret(config.secretName);
+        if (secret === undefined) {
+          throw new Error(`No secret named "${config.secretName}" is configured on the server`);
+        }
+        headers['X-Workflow-Secret'] = secret;
+      }
+
+      const signal = AbortSignal.timeout(timeoutMs);
+      const status = await send({
+        url,
+        method: config.method || 'POST',
+        headers,
+        body: JSON.stringify({
+          instanceId: context.instance.id,
+          workflowId: context.step.id,
+          decision: context.decision,
+          fromValue: context.fromValue,
+          toValue: context.toValue
+        }),
+        signal
+      }).catch((error: unknown) => {
+        throw signal.aborted ? new Error(`Webhook did not respond within ${timeoutMs / 1000}s`) : error;
+      });
+
+      if (status < 200 || status >= 300) {
+        throw new Error(`Webhook responded with ${status}`);
+      }
+      return `Webhook responded with ${status}`;
+    }
+  };
+}
+
+export function isIpAddress(address: string): boolean {
+  return !!parseIpv4(address) || !!parseIpv6(address);
+}
+
+/**
+ * False for loopback, private, link-local (cloud metadata lives there),
+ * shared, multicast and reserved addresses, including IPv4 ones wrapped in
+ * IPv6, and for anything that is not an IP address at all.
+ */
+export function isPublicAddress(address: string): boolean {
+  const ipv4 = parseIpv4(address);
+  if (ipv4) return isPublicIpv4(ipv4);
+
+  const ipv6 = parseIpv6(address);
+  if (!ipv6) return false;
+
+  const [first, second] = ipv6;
+  const embeddedIpv4 = [ipv6[6] >> 8, ipv6[6] & 0xff, ipv6[7] >> 8, ipv6[7] & 0xff];
+  if (ipv6.slice(0, 5).every((part: number) => part === 0) && ipv6[5] === 0xffff) {
+    return isPublicIpv4(embeddedIpv4);
+  }
+  if (first === 0x64 && second === 0xff9b && ipv6.slice(2, 6).every((part: number) => part === 0)) {
+    return isPublicIpv4(embeddedIpv4);
+  }
+  // Unspecified, loopback and the old IPv4-compatible range
+  if (ipv6.slice(0, 6).every((part: number) => part === 0)) return false;
+
+  return (first & 0xfe00) !== 0xfc00 &&
+         (first & 0xffc0) !== 0xfe80 &&
+         (first & 0xff00) !== 0xff00;
+}
+
+function isPublicIpv4([a, b, c]: number[]): boolean {
+  return !(
+    a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 198 && (b === 18 || b === 19))
+  );
+}
+
+function parseIpv4(address: string): number[] | null {
+  const match = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(address);
+  if (!match) return null;
+  const octets = match.slice(1).map(Number);
+  return octets.every((octet: number) => octet <= 255) ? octets : null;
+}
+
+// The eight 16-bit groups of an IPv6 address, or null when it is not one
+function parseIpv6(address: string): number[] | null {
+  let text = address.replace(/%.*$/, '');
+
+  // A trailing dotted IPv4 part stands for the last two groups
+  const lastColon = text.lastIndexOf(':');
+  if (text.includes('.') && lastColon !== -1) {
+    const ipv4 = parseIpv4(text.slice(lastColon + 1));
+    if (!ipv4) return null;
+    text = `${text.slice(0, lastColon + 1)}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+
+  const toGroups = (part: string) => part === '' ? [] : part.split(':');
+  const head = toGroups(halves[0]);
+  const rest = halves.length === 2 ? toGroups(halves[1]) : [];
+  if (![...head, ...rest].every((group: string) => /^[0-9a-f]{1,4}$/i.test(group))) return null;
+
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  return [
+    ...head.map((group: string) => parseInt(group, 16)),
+    ...new Array(halves.length === 2 ? missing : 0).fill(0),
+    ...rest.map((group: string) => parseInt(group, 16))
+  ];
+}
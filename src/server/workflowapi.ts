@@ -0,0 +1,120 @@
+import express from 'express';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { WorkflowPageRef } from '../app/workflowservice.service';
+import { StepDecision } from '../app/workflowsimulator.service';
+import { WorkflowEngine, WorkflowEngineError } from './workflowengine';
+
+const PAGE_PATH = '/projects/:projectId/modules/:moduleId/pages/:pageId/instances';
+
+/** A caller the server has identified, and the access level it acts with. */
+export interface WorkflowCaller {
+  accessLevelId: number;
+}
+
+/** Identifies the caller of a request, or answers null to refuse it. */
+export type WorkflowAuthenticator = (req: express.Request) => WorkflowCaller | null;
+
+/**
+ * REST endpoints for running workflows:
+ *   POST /projects/:projectId/modules/:moduleId/pages/:pageId/instances  { status? }
+ *   GET  /projects/:projectId/modules/:moduleId/pages/:pageId/instances
+ *   GET  /instances/:id
+ *   POST /instances/:id/continue
+ *   POST /instances/:id/reject
+ *
+ * Every request must be accepted by `authenticate`, and continue/reject act
+ * with the access level it returns; nothing in the request body can raise it.
+ */
+export function workflowApi(engine: WorkflowEngine, authenticate: WorkflowAuthenticator): express.Router {
+  const router = express.Router();
+  router.use(express.json());
+
+  router.use(['/instances', '/projects/:projectId/modules/:moduleId/pages/:pageId/instances'], (req, res, next) => {
+    const caller = authenticate(req);
+    if (!caller) {
+      res.status(401).json({ error: 'A valid API key is required' });
+      return;
+    }
+    res.locals['caller'] = caller;
+    next();
+  });
+
+  router.post(PAGE_PATH, (req, res) => {
+    const status = req.body?.status;
+    respond(res, engine.createInstance(toPage(req.params), typeof status === 'string' ? status : undefined), 201);
+  });
+
+  router.get(PAGE_PATH, (req, res) => {
+    respond(res, engine.listInstances(toPage(req.params)));
+  });
+
+  router.get('/instances/:id', (req, res) => {
+    respond(res, engine.getInstance(req.params['id']));
+  });
+
+  (['continue', 'reject'] as StepDecision[]).forEach((decision: StepDecision) => {
+    router.post(`/instances/:id/${decision}`, (req, res) => {
+      const caller: WorkflowCaller = res.locals['caller'];
+      respond(res, engine.act(req.params['id'], decision, caller.accessLevelId));
+    });
+  });
+
+  return router;
+}
+
+/**
+ * Reads `WORKFLOW_API_KEYS`-style settings, `key=accessLevelId` pairs
+ * separated by commas, into the key-to-level map apiKeyAuthenticator takes.
+ */
+export function parseApiKeys(value: string | undefined): Map<string, number> {
+  const keys = new Map<string, number>();
+  (value || '').split(',').forEach((entry: string) => {
+    const separator = entry.lastIndexOf('=');
+    const key = entry.slice(0, separator).trim();
+    const accessLevelId = Number(entry.slice(separator + 1));
+    if (separator > 0 && key && Number.isInteger(accessLevelId)) {
+      keys.set(key, accessLevelId);
+    }
+  });
+  return keys;
+}
+
+/** Accepts `Authorization: Bearer <key>` for the keys given, each acting with its own access level. */
+export function apiKeyAuthenticator(keys: Map<string, number>): WorkflowAuthenticator {
+  // Compared as digests so that neither the length nor the content of a key leaks through timing
+  const digests = [...keys].map(([key, accessLevelId]: [string, number]) => ({ digest: digest(key), accessLevelId }));
+
+  return (req: express.Request) => {
+    const match = /^Bearer (\S+)$/.exec(req.headers.authorization || '');
+    if (!match) return null;
+
+    const presented = digest(match[1]);
+    const found = digests.find((entry: { digest: Buffer }) => timingSafeEqual(entry.digest, presented));
+    return found ? { accessLevelId: found.accessLevelId } : null;
+  };
+}
+
+function digest(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
+
+function toPage(params: Record<string, string>): WorkflowPageRef {
+  return {
+    project_id: Number(params['projectId']),
+    logical_module_id: Number(params['moduleId']),
+    page_id: Number(params['pageId'])
+  };
+}
+
+function respond(res: express.Response, result: Promise<unknown>, status = 200): void {
+  result
+    .then((body: unknown) => res.status(status).json(body))
+    .catch((error: unknown) => {
+      if (error instanceof WorkflowEngineError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Workflow API error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    });
+}
@@ -0,0 +1,107 @@
+import { WorkflowProcessItem } from '../app/workflowservice.service';
+import { WorkflowEngine, WorkflowEngineError } from './workflowengine';
+import { InMemoryWorkflowStore, WorkflowInstanceEvent } from './workflowstore';
+import { ExecuteContext, ExecuteHandlerRegistry } from './executeregistry';
+
+describe('WorkflowEngine', () => {
+  const page = { project_id: 1, logical_module_id: 10, page_id: 80 };
+
+  const step = (id: string, sequence: number, input: string, output: string, extra: Partial<WorkflowProcessItem> = {}): WorkflowProcessItem => ({
+    id,
+    ...page,
+    sequence,
+    name: `Step ${sequence}`,
+    input_property_value: input,
+    return_input_property_value: null,
+    output_property_name_id: 410,
+    output_property_value: output,
+    output_property_reject_value: null,
+    execute: '',
+    work_flow_access_level_id: 1,
+    ...extra
+  });
+
+  let engine: WorkflowEngine;
+  let calls: string[];
+
+  beforeEach(() => {
+    calls = [];
+    const handlers = new ExecuteHandlerRegistry()
+      .register({
+        name: 'email',
+        run: async (context: ExecuteContext) => {
+          calls.push('email');
+          return `Emailed about ${context.toValue}`;
+        }
+      })
+      .register({
+        name: 'posting',
+        run: async () => {
+          calls.push('posting');
+          throw new Error('Ledger unavailable');
+        }
+      });
+
+    engine = new WorkflowEngine(new InMemoryWorkflowStore([
+      step('3', 1, 'New', 'Submitted', { execute: 'email', work_flow_access_level_id: 2 }),
+      step('4', 2, 'Submitted', 'Verified', { return_input_property_value: 'Resubmitted' }),
+      step('5', 3, 'Verified', 'Approved', { output_property_reject_value: 'Resubmitted', execute: 'email,posting' })
+    ]), handlers);
+  });
+
+  it('should start an instance on the first step of the page', async () => {
+    const view = await engine.createInstance(page);
+
+    expect(view.instance.status).toBe('New');
+    expect(view.currentStep?.id).toBe('3');
+    expect(await engine.listInstances(page)).toHaveSize(1);
+  });
+
+  it('should record the execute hooks fired by each action', async () => {
+    const { instance } = await engine.createInstance(page, 'Verified');
+
+    const view = await engine.act(instance.id, 'continue', 1);
+
+    expect(view.instance.completed).toBeTrue();
+    expect(view.instance.history[0].executed).toEqual(['email', 'posting']);
+  });
+
+  it('should run the execute handlers in order and record each result', async () => {
+    const { instance } = await engine.createInstance(page, 'Verified');
+
+    const view = await engine.act(instance.id, 'continue', 1);
+
+    expect(calls).toEqual(['email', 'posting']);
+    expect(view.instance.history[0].results).toEqual([
+      { handler: 'email', status: 'ok', detail: 'Emailed about Approved' },
+      { handler: 'posting', status: 'failed', detail: 'Ledger unavailable' }
+    ]);
+  });
+
+  it('should apply simultaneous actions on one instance one after the other', async () => {
+    const { instance } = await engine.createInstance(page, 'Submitted');
+
+    await Promise.all([engine.act(instance.id, 'continue', 1), engine.act(instance.id, 'continue', 1)]);
+
+    const { history } = (await engine.getInstance(instance.id)).instance;
+    expect(history.map((event: WorkflowInstanceEvent) => event.fromValue)).toEqual(['Submitted', 'Verified']);
+    expect(calls).toEqual(['email', 'posting']);
+  });
+
+  it('should route a rejected instance to the step accepting resubmissions', async () => {
+    const { instance } = await engine.createInstance(page, 'Verified');
+
+    const view = await engine.act(instance.id, 'reject', 1);
+
+    expect(view.instance.status).toBe('Resubmitted');
+    expect(view.currentStep?.id).toBe('4');
+  });
+
+  it('should refuse actions without the required access level', async () => {
+    const { instance } = await engine.createInstance(page);
+
+    await expectAsync(engine.act(instance.id, 'continue', 1))
+      .toBeRejectedWith(new WorkflowEngineError('"Step 1" requires access level 2', 403));
+    expect((await engine.getInstance(instance.id)).instance.history).toEqual([]);
+  });
+});
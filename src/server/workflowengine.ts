@@ -0,0 +1,166 @@
+import { WorkflowPageRef, WorkflowProcessItem } from '../app/workflowservice.service';
+import { WorkflowsimulatorService, StepDecision } from '../app/workflowsimulator.service';
+import { WorkflowStore, WorkflowInstance, WorkflowInstanceEvent } from './workflowstore';
+import { ExecuteHandlerRegistry } from './executeregistry';
+
+export class WorkflowEngineError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'WorkflowEngineError';
+  }
+}
+
+export interface WorkflowInstanceView {
+  instance: WorkflowInstance;
+  currentStep: WorkflowProcessItem | null;
+  canReject: boolean;
+}
+
+/**
+ * Runs workflow instances against a page's workflowProcess definition. The
+ * step an instance is on is resolved from its status on every call, so edits
+ * made in the designer apply to instances already in flight.
+ */
+export class WorkflowEngine {
+  private steps = new WorkflowsimulatorService();
+  // The last action queued per instance id; the next one waits for it
+  private acting = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private store: WorkflowStore,
+    private handlers: ExecuteHandlerRegistry = new ExecuteHandlerRegistry(),
+    private now: () => Date = () => new Date()
+  ) {}
+
+  async createInstance(page: WorkflowPageRef, status?: string): Promise<WorkflowInstanceView> {
+    const rows = await this.store.getWorkflowProcess(page);
+    if (rows.length === 0) {
+      throw new WorkflowEngineError('This page has no workflow steps', 404);
+    }
+
+    const startStatus = status ?? this.steps.getStartStatuses(rows)[0];
+    const step = this.steps.findStep(rows, startStatus);
+    if (!step) {
+      throw new WorkflowEngineError(`No step accepts the status "${startStatus}"`, 400);
+    }
+
+    const timestamp = this.now().toISOString();
+    const instance = await this.store.createInstance({
+      project_id: page.project_id,
+      logical_module_id: page.logical_module_id,
+      page_id: page.page_id,
+      status: startStatus,
+      currentWorkflowId: step.id,
+      completed: false,
+      history: [],
+      createdAt: timestamp,
+      updatedAt: timestamp
+    });
+
+    return this.toView(instance, rows);
+  }
+
+  async listInstances(page: WorkflowPageRef): Promise<WorkflowInstance[]> {
+    return this.store.listInstances(page);
+  }
+
+  async getInstance(id: string): Promise<WorkflowInstanceView> {
+    const instance = await this.requireInstance(id);
+    const rows = await this.store.getWorkflowProcess(instance);
+    return this.toView(instance, rows);
+  }
+
+  /**
+   * Applies a continue or reject action on the instance's current step and
+   * runs the step's execute handlers, in the order listed, before saving.
+   * Actions on one instance run one at a time, so each starts from the
+   * status the previous one saved and no handler fires twice for one step.
+   */
+  act(id: string, decision: StepDecision, accessLevelId: number): Promise<WorkflowInstanceView> {
+    const previous = this.acting.get(id) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(() => this.applyAction(id, decision, accessLevelId));
+    this.acting.set(id, run);
+
+    const release = () => {
+      if (this.acting.get(id) === run) this.acting.delete(id);
+    };
+    run.then(release, release);
+    return run;
+  }
+
+  private async applyAction(id: string, decision: StepDecision, accessLevelId: number): Promise<WorkflowInstanceView> {
+    const instance = await this.requireInstance(id);
+    const rows = await this.store.getWorkflowProcess(instance);
+    const step = this.steps.findStep(rows, instance.status);
+
+    if (!step) {
+      throw new WorkflowEngineError(`Instance ${id} is complete`, 409);
+    }
+    // The level is the authenticated caller's, never one the request names (see workflowApi)
+    if (!this.steps.hasAccess(step, accessLevelId)) {
+      throw new WorkflowEngineError(`"${step.name}" requires access level ${step['work_flow_access_level_id']}`, 403);
+    }
+    if (decision === 'reject' && !this.steps.canReject(step)) {
+      throw new WorkflowEngineError(`"${step.name}" cannot be rejected`, 409);
+    }
+
+    const toValue = decision === 'reject'
+      ? String(step['output_property_reject_value'])
+      : String(step['output_property_value'] ?? '');
+    const executed = this.handlers.parseExecute(step['execute']);
+    const results = await this.handlers.run(executed, {
+      instance,
+      step,
+      decision,
+      fromValue: instance.status,
+      toValue
+    });
+    const timestamp = this.now().toISOString();
+
+    const event: WorkflowInstanceEvent = {
+      workflowId: step.id,
+      stepName: step.name,
+      action: decision,
+      accessLevelId,
+      propertyId: step['output_property_name_id'] ?? null,
+      fromValue: instance.status,
+      toValue,
+      executed,
+      results,
+      at: timestamp
+    };
+
+    const next = this.steps.findStep(rows, toValue);
+    const updated = await this.store.updateInstance({
+      ...instance,
+      status: toValue,
+      currentWorkflowId: next ? next.id : null,
+      completed: !next,
+      history: [...instance.history, event],
+      updatedAt: timestamp
+    });
+
+    return this.toView(updated, rows);
+  }
+
+  private async requireInstance(id: string): Promise<WorkflowInstance> {
+    const instance = await this.store.getInstance(id);
+    if (!instance) {
+      throw new WorkflowEngineError(`Workflow instance ${id} was not found`, 404);
+    }
+    return instance;
+  }
+
+  private toView(instance: WorkflowInstance, rows: WorkflowProcessItem[]): WorkflowInstanceView {
+    const currentStep = this.steps.findStep(rows, instance.status);
+    return {
+      instance: {
+        ...instance,
+        currentWorkflowId: currentStep ? currentStep.id : null,
+        completed: !currentStep
+      },
+      currentStep,
+      canReject: !!currentStep && this.steps.canReject(currentStep)
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import { WorkflowPageRef, WorkflowProcessItem } from '../app/workflowservice.service';
+import { StepDecision } from '../app/workflowsimulator.service';
+import type { ExecuteResult } from './executeregistry';
+
+export interface WorkflowInstanceEvent {
+  workflowId: string;
+  stepName: string;
+  action: StepDecision;
+  accessLevelId: number;
+  propertyId: number | null;
+  fromValue: string;
+  toValue: string;
+  executed: string[];
+  results: ExecuteResult[];
+  at: string;
+}
+
+export interface WorkflowInstance extends WorkflowPageRef {
+  id: string;
+  status: string;
+  currentWorkflowId: string | null;
+  completed: boolean;
+  history: WorkflowInstanceEvent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewWorkflowInstance = Omit<WorkflowInstance, 'id'>;
+
+/**
+ * Persistence used by the execution engine. Kept free of node APIs so the
+ * engine and the in-memory store can also run in the browser test runner.
+ */
+export interface WorkflowStore {
+  getWorkflowProcess(page: WorkflowPageRef): Promise<WorkflowProcessItem[]>;
+  listInstances(page: WorkflowPageRef): Promise<WorkflowInstance[]>;
+  getInstance(id: string): Promise<WorkflowInstance | null>;
+  createInstance(instance: NewWorkflowInstance): Promise<WorkflowInstance>;
+  updateInstance(instance: WorkflowInstance): Promise<WorkflowInstance>;
+}
+
+export function isOnPage(row: WorkflowPageRef, page: WorkflowPageRef): boolean {
+  return Number(row.project_id) === page.project_id &&
+         Number(row.logical_module_id) === page.logical_module_id &&
+         Number(row.page_id) === page.page_id;
+}
+
+// json-server style ids: strings holding the next free integer
+export function nextInstanceId(instances: WorkflowInstance[]): string {
+  const max = instances.reduce((highest: number, instance: WorkflowInstance) => {
+    const id = Number(instance.id);
+    return isNaN(id) ? highest : Math.max(highest, id);
+  }, 0);
+  return String(max + 1);
+}
+
+export class InMemoryWorkflowStore implements WorkflowStore {
+  private instances: WorkflowInstance[] = [];
+
+  constructor(private rows: WorkflowProcessItem[] = []) {}
+
+  async getWorkflowProcess(page: WorkflowPageRef): Promise<WorkflowProcessItem[]> {
+    return this.rows.filter((row: WorkflowProcessItem) => isOnPage(row, page)).map(clone);
+  }
+
+  async listInstances(page: WorkflowPageRef): Promise<WorkflowInstance[]> {
+    return this.instances.filter((instance: WorkflowInstance) => isOnPage(instance, page)).map(clone);
+  }
+
+  async getInstance(id: string): Promise<WorkflowInstance | null> {
+    const instance = this.instances.find((i: WorkflowInstance) => i.id === id);
+    return instance ? clone(instance) : null;
+  }
+
+  async createInstance(instance: NewWorkflowInstance): Promise<WorkflowInstance> {
+    const created: WorkflowInstance = { ...clone(instance), id: nextInstanceId(this.instances) };
+    this.instances.push(created);
+    return clone(created);
+  }
+
+  async updateInstance(instance: WorkflowInstance): Promise<WorkflowInstance> {
+    const index = this.instances.findIndex((i: WorkflowInstance) => i.id === instance.id);
+    if (index === -1) {
+      throw new Error(`Workflow instance ${instance.id} does not exist`);
+    }
+    this.instances[index] = clone(instance);
+    return clone(instance);
+  }
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}